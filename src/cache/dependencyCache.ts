@@ -13,6 +13,29 @@ interface CachedDependency {
 	sourceHash: string;
 	lastModified: number;
 	settingsHash?: string; // Optional for backward compatibility
+	headers?: CachedHeader[]; // Missing in metadata written before header tracking
+}
+
+/**
+ * @interface CachedHeader
+ * @brief A header file an object file was compiled against
+ */
+interface CachedHeader {
+	path: string;
+	hash: string;
+	lastModified: number;
+}
+
+/**
+ * @interface CacheMetadata
+ * @brief Layout of metadata.json
+ *
+ * Version 1 metadata was a bare array of entries with objects named after the source's
+ * base name; version 2 wraps the entries and uses collision-free object names.
+ */
+interface CacheMetadata {
+	version: number;
+	entries: CachedDependency[];
 }
 
 /**
@@ -26,17 +49,23 @@ export interface CompilationSettings {
 	wasmMemorySize: number;
 	includePaths: string[];
 	defines: string[];
+	colorDepth: number;
+	lvConfHash?: string; // Content hash of the project's lv_conf.h, if one is used
+	sourceMapping?: boolean; // Whether object creation calls are wrapped to record their source location
+	performanceMode?: boolean; // Whether LVGL is built with its performance and memory monitors
 }
 
 /**
  * @class DependencyCache
  * @brief Manages caching of compiled dependency .o files with change detection.
  *
- * Tracks source file hashes and modification times to determine when
- * dependencies need to be recompiled. Stores compiled .o files in a
- * cache directory organized by project.
+ * Tracks source file and included header hashes and modification times to
+ * determine when dependencies need to be recompiled. Stores compiled .o files
+ * in a cache directory organized by project.
  */
 export class DependencyCache {
+	private static readonly METADATA_VERSION = 2;
+
 	private readonly cacheDir: string;
 	private readonly metadataPath: string;
 	private cache: Map<string, CachedDependency>;
@@ -74,18 +103,31 @@ export class DependencyCache {
 
 	/**
 	 * @brief Loads cached metadata from disk.
+	 *
+	 * Version 1 metadata is discarded along with its objects: it has no header hashes, so none
+	 * of its entries could be reused anyway.
 	 */
 	private loadMetadata(): void {
 		if (fs.existsSync(this.metadataPath)) {
 			try {
 				const data = fs.readFileSync(this.metadataPath, 'utf-8');
-				const entries: CachedDependency[] = JSON.parse(data);
+				const metadata: CachedDependency[] | CacheMetadata = JSON.parse(data);
 
-				for (const entry of entries) {
-					this.cache.set(entry.sourcePath, entry);
+				if (Array.isArray(metadata)) {
+					for (const entry of metadata) {
+						fs.rmSync(entry.objectPath, { force: true });
+					}
+					this.outputChannel.appendLine(
+						`Discarded ${metadata.length} cached dependencies from an older version`
+					);
+					this.saveMetadata();
+				} else {
+					for (const entry of metadata.entries) {
+						this.cache.set(entry.sourcePath, entry);
+					}
 				}
 
-				this.outputChannel.appendLine(`Loaded ${entries.length} cached dependencies`);
+				this.outputChannel.appendLine(`Loaded ${this.cache.size} cached dependencies`);
 			} catch (error) {
 				this.outputChannel.appendLine(`Failed to load cache metadata: ${error}`);
 				this.cache.clear();
@@ -98,8 +140,11 @@ export class DependencyCache {
 	 */
 	private saveMetadata(): void {
 		try {
-			const entries = Array.from(this.cache.values());
-			fs.writeFileSync(this.metadataPath, JSON.stringify(entries, null, 2), 'utf-8');
+			const metadata: CacheMetadata = {
+				version: DependencyCache.METADATA_VERSION,
+				entries: Array.from(this.cache.values()),
+			};
+			fs.writeFileSync(this.metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
 		} catch (error) {
 			this.outputChannel.appendLine(`Failed to save cache metadata: ${error}`);
 		}
@@ -131,6 +176,10 @@ export class DependencyCache {
 			wasmMemorySize: settings.wasmMemorySize,
 			includePaths: [...settings.includePaths].sort(),
 			defines: [...settings.defines].sort(),
+			colorDepth: settings.colorDepth,
+			lvConfHash: settings.lvConfHash,
+			sourceMapping: settings.sourceMapping,
+			performanceMode: settings.performanceMode,
 		};
 		const settingsString = JSON.stringify(normalized);
 		return crypto.createHash('sha256').update(settingsString).digest('hex').substring(0, 16);
@@ -144,6 +193,7 @@ export class DependencyCache {
 	 * - The source file hasn't been modified
 	 * - The source file hash matches
 	 * - The compilation settings haven't changed
+	 * - None of the headers the object was compiled against have changed
 	 *
 	 * @param sourcePath Path to the source C file
 	 * @returns true if cache is valid, false if recompilation is needed
@@ -188,9 +238,44 @@ export class DependencyCache {
 			return false;
 		}
 
+		// Entries from before header tracking can't tell whether a header changed
+		if (!cached.headers) {
+			this.outputChannel.appendLine(
+				`Cache miss: ${path.basename(sourcePath)} has no header dependency information`
+			);
+			return false;
+		}
+
+		for (const header of cached.headers) {
+			if (!this.isHeaderUnchanged(header)) {
+				this.outputChannel.appendLine(
+					`Cache miss: ${path.basename(sourcePath)} - header ${path.basename(header.path)} changed`
+				);
+				return false;
+			}
+		}
+
 		return true;
 	}
 
+	/**
+	 * @brief Checks if a header is unchanged since the object was compiled.
+	 *
+	 * @param header Recorded header state
+	 * @returns true if the header still exists with the same modification time and hash
+	 */
+	private isHeaderUnchanged(header: CachedHeader): boolean {
+		if (!fs.existsSync(header.path)) {
+			return false;
+		}
+
+		if (fs.statSync(header.path).mtimeMs !== header.lastModified) {
+			return false;
+		}
+
+		return this.computeFileHash(header.path) === header.hash;
+	}
+
 	/**
 	 * @brief Gets the cached object file path for a source file.
 	 *
@@ -211,8 +296,9 @@ export class DependencyCache {
 	 *
 	 * @param sourcePath Path to the source C file
 	 * @param objectPath Path to the compiled object file
+	 * @param headers Paths of the headers the object was compiled against
 	 */
-	public updateCache(sourcePath: string, objectPath: string): void {
+	public updateCache(sourcePath: string, objectPath: string, headers: string[] = []): void {
 		const stat = fs.statSync(sourcePath);
 		const hash = this.computeFileHash(sourcePath);
 
@@ -222,12 +308,37 @@ export class DependencyCache {
 			sourceHash: hash,
 			lastModified: stat.mtimeMs,
 			settingsHash: this.currentSettingsHash,
+			headers: headers
+				.filter((header) => fs.existsSync(header))
+				.map((header) => ({
+					path: header,
+					hash: this.computeFileHash(header),
+					lastModified: fs.statSync(header).mtimeMs,
+				})),
 		};
 
 		this.cache.set(sourcePath, entry);
 		this.saveMetadata();
 	}
 
+	/**
+	 * @brief Gets the headers the cached objects of the given sources were compiled against.
+	 *
+	 * @param sourcePaths Array of source file paths
+	 * @returns Unique header paths
+	 */
+	public getTrackedHeaders(sourcePaths: string[]): string[] {
+		const headers = new Set<string>();
+
+		for (const sourcePath of sourcePaths) {
+			for (const header of this.cache.get(sourcePath)?.headers ?? []) {
+				headers.add(header.path);
+			}
+		}
+
+		return Array.from(headers);
+	}
+
 	/**
 	 * @brief Gets the cache directory path.
 	 *
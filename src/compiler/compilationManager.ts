@@ -7,9 +7,23 @@ import { LibraryBuilder } from '../lvgl/libraryBuilder';
 import { VersionManager } from '../lvgl/versionManager';
 import { MainTemplate } from '../lvgl/mainTemplate';
 import { IntellisenseHelper } from '../utils/intellisenseHelper';
-import { CompilationResult, ResolvedProjectConfig } from '../types';
+import { CompilationResult, CompilerError, CompilerWarning, ResolvedProjectConfig } from '../types';
 import { DependencyCache, CompilationSettings } from '../cache/dependencyCache';
 import { ConfigLoader } from '../utils/configLoader';
+import { ScreenDiscovery } from '../utils/screenDiscovery';
+import { DeviceFrameLoader } from '../utils/deviceFrameLoader';
+import { ConfigGenerator } from '../lvgl/configGenerator';
+import { IncludeScanner } from '../utils/includeScanner';
+
+/**
+ * @interface DependencyBuildResult
+ * @brief Outcome of compiling the project's dependency files
+ */
+interface DependencyBuildResult {
+	objectFiles: string[];
+	errors: CompilerError[];
+	warnings: CompilerWarning[];
+}
 
 /**
  * @class CompilationManager
@@ -28,7 +42,10 @@ export class CompilationManager implements vscode.Disposable {
 	private diagnosticCollection: vscode.DiagnosticCollection;
 	private readonly context: vscode.ExtensionContext;
 	private dependencyCache: DependencyCache | undefined;
+	private headlessDependencyCache: DependencyCache | undefined;
 	private currentProjectConfig: ResolvedProjectConfig | null = null;
+	private mainFileHeaders: string[] = [];
+	private buildQueue: Promise<void> = Promise.resolve();
 
 	/**
 	 * @constructor
@@ -61,20 +78,63 @@ export class CompilationManager implements vscode.Disposable {
 	 * 2. Retrieves configuration settings (LVGL version, optimization, display size)
 	 * 3. Ensures the specified LVGL version is downloaded
 	 * 4. Updates IntelliSense configuration for the workspace
-	 * 5. Builds or retrieves cached LVGL object files
+	 * 5. Builds or retrieves cached LVGL object files (with the project's lv_conf.h if configured)
 	 * 6. Compiles dependencies with caching
-	 * 7. Generates the main entry point file
+	 * 7. Discovers screen entry points and generates the main entry point file
 	 * 8. Compiles the user file with LVGL objects and dependencies
 	 * 9. Updates VS Code diagnostics with any errors/warnings
 	 *
+	 * When the token is cancelled, running emcc processes are killed and the build stops at the
+	 * next step with a result marked as cancelled. Diagnostics are left untouched in that case.
+	 *
+	 * A headless build links the headless main of the visual tests instead, without SDL drivers,
+	 * into a separate output directory so it does not replace the preview's module. It compiles
+	 * against its own copy of lv_conf.h and caches dependencies separately, and leaves the
+	 * preview's project config, dependency cache and diagnostics untouched.
+	 *
+	 * Builds run one at a time: building LVGL objects replaces the lv_conf.h in the shared LVGL
+	 * directory, which a concurrent preview build would otherwise pick up halfway through.
+	 *
+	 * @param fileUri URI of the C source file to compile.
+	 * @param token Cancellation token for the build (optional).
+	 * @param headless Whether to build the headless module for visual tests (default: false).
+	 * @returns Promise resolving to CompilationResult with success status and any errors/warnings.
+	 */
+	public compileUserFile(
+		fileUri: vscode.Uri,
+		token?: vscode.CancellationToken,
+		headless: boolean = false
+	): Promise<CompilationResult> {
+		const build = this.buildQueue.then(() =>
+			token?.isCancellationRequested ? this.createCancelledResult() : this.build(fileUri, token, headless)
+		);
+		this.buildQueue = build.then(
+			() => undefined,
+			() => undefined
+		);
+		return build;
+	}
+
+	/**
+	 * @brief Runs a build queued by compileUserFile().
+	 *
 	 * @param fileUri URI of the C source file to compile.
+	 * @param token Cancellation token for the build (optional).
+	 * @param headless Whether to build the headless module for visual tests.
 	 * @returns Promise resolving to CompilationResult with success status and any errors/warnings.
 	 */
-	public async compileUserFile(fileUri: vscode.Uri): Promise<CompilationResult> {
+	private async build(
+		fileUri: vscode.Uri,
+		token: vscode.CancellationToken | undefined,
+		headless: boolean
+	): Promise<CompilationResult> {
 		const config = vscode.workspace.getConfiguration('lvglPreview');
 		const lvglVersion = config.get<string>('lvglVersion', '9.2.0');
 		const wasmMemorySize = config.get<number>('wasmMemorySize', 128);
 		const lvglMemorySize = config.get<number>('lvglMemorySize', 256);
+		const sourceMapping = !headless && config.get<boolean>('sourceMapping', false);
+		// Visual test baselines are rendered without the performance overlays
+		const performanceMode = !headless && config.get<boolean>('performanceMode', false);
 
 		// Validate memory settings
 		const lvglMemoryMB = lvglMemorySize / 1024;
@@ -108,13 +168,28 @@ export class CompilationManager implements vscode.Disposable {
 		try {
 			// Load project configuration
 			const projectConfig = await ConfigLoader.loadConfig(fileUri, this.outputChannel);
-			this.currentProjectConfig = projectConfig;
+			if (!headless) {
+				this.currentProjectConfig = projectConfig;
+			}
+
+			// Colour depth of the target panel and how the preview renders it
+			const majorVersion = parseInt(lvglVersion.split('.')[0], 10);
+			const colorDepthConfig = ConfigGenerator.getColorDepthConfig(
+				config.get<number>('colorDepth', 32),
+				majorVersion,
+				projectConfig?.lvConf
+			);
+			const quantization = colorDepthConfig.quantization ? `, quantised to ${colorDepthConfig.quantization}` : '';
+			this.outputChannel.appendLine(
+				`Colour depth: ${colorDepthConfig.targetColorDepth}-bit (LVGL ${colorDepthConfig.lvglColorDepth}-bit${quantization})`
+			);
 
 			// Determine the actual main file to compile
 			let mainSourceFile: string;
 			let dependencies: string[] = [];
 			let userIncludePaths: string[] = [];
 			let defines: string[] = [];
+			let dependencyCache: DependencyCache | undefined;
 
 			if (projectConfig) {
 				mainSourceFile = projectConfig.mainFile;
@@ -122,14 +197,20 @@ export class CompilationManager implements vscode.Disposable {
 				userIncludePaths = projectConfig.includePaths;
 				defines = projectConfig.defines;
 
+				// Headers included by the project's lv_conf.h must also be found when compiling user code
+				if (projectConfig.lvConf) {
+					userIncludePaths.push(path.dirname(projectConfig.lvConf));
+				}
+
 				this.outputChannel.appendLine(`Using project config mode:`);
 				this.outputChannel.appendLine(`  Main file: ${mainSourceFile}`);
 				this.outputChannel.appendLine(`  Dependencies: ${dependencies.length} files`);
 				this.outputChannel.appendLine(`  Include paths: ${userIncludePaths.length} directories`);
 				this.outputChannel.appendLine(`  Defines: ${defines.join(', ')}`);
 
-				// Initialize the dependency cache with settings
-				const projectId = this.getProjectId(projectConfig.configFileDir);
+				// Initialize the dependency cache with settings; headless objects are built without the
+				// preview's instrumentation, so they are cached separately
+				const projectId = this.getProjectId(projectConfig.configFileDir) + (headless ? '_headless' : '');
 				const compilationSettings: CompilationSettings = {
 					lvglVersion,
 					optimization: config.get<string>('emccOptimization', '-O1'),
@@ -137,13 +218,17 @@ export class CompilationManager implements vscode.Disposable {
 					wasmMemorySize,
 					includePaths: userIncludePaths,
 					defines,
+					colorDepth: colorDepthConfig.lvglColorDepth,
+					lvConfHash: projectConfig.lvConf ? ConfigGenerator.hashLvConf(projectConfig.lvConf) : undefined,
+					sourceMapping,
+					performanceMode,
 				};
-				this.dependencyCache = new DependencyCache(
-					this.context,
-					projectId,
-					this.outputChannel,
-					compilationSettings
-				);
+				dependencyCache = new DependencyCache(this.context, projectId, this.outputChannel, compilationSettings);
+				if (headless) {
+					this.headlessDependencyCache = dependencyCache;
+				} else {
+					this.dependencyCache = dependencyCache;
+				}
 			} else {
 				// Single file mode
 				mainSourceFile = fileUri.fsPath;
@@ -158,41 +243,106 @@ export class CompilationManager implements vscode.Disposable {
 			const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
 			await IntellisenseHelper.updateCppProperties(lvglPath, workspaceFolder);
 
-			// Build or get cached LVGL object files
+			// Build or get cached LVGL object files; the headless module is compiled against its own lv_conf.h
 			this.outputChannel.appendLine('Checking for LVGL objects...');
-			const objectFiles = await this.libraryBuilder.buildLibrary(lvglVersion);
+			const configDir = headless ? path.join(this.buildPath, 'lv_conf_headless') : undefined;
+			const objectFiles = await this.libraryBuilder.buildLibrary(
+				lvglVersion,
+				projectConfig?.lvConf,
+				performanceMode,
+				configDir
+			);
 			this.outputChannel.appendLine(`Using ${objectFiles.length} LVGL object files`);
 
+			if (token?.isCancellationRequested) {
+				return this.createCancelledResult();
+			}
+
 			// Get LVGL include path
 			const lvglIncludePath = this.versionManager.getIncludePath(lvglVersion);
 
 			// For LVGL v8, ensure lv_drivers is available and add its include path
-			const majorVersion = parseInt(lvglVersion.split('.')[0], 10);
 			if (majorVersion < 9) {
 				const lvDriversIncludePath = this.versionManager.getLvDriversIncludePath();
 				userIncludePaths.push(lvDriversIncludePath);
 				this.outputChannel.appendLine(`Added lv_drivers include path: ${lvDriversIncludePath}`);
 			}
 
+			// Source mapping wraps the object creation calls of the main file and the dependencies
+			const forcedIncludes: string[] = [];
+			if (sourceMapping) {
+				const sourceMapHeader = path.join(this.buildPath, 'lvgl_live_preview_source_map.h');
+				MainTemplate.generateSourceMapHeader(sourceMapHeader);
+				forcedIncludes.push(sourceMapHeader);
+				this.outputChannel.appendLine('Source mapping enabled: recording where objects are created');
+			}
+
 			// Compile dependencies if any
 			let dependencyObjects: string[] = [];
-			if (dependencies.length > 0 && this.dependencyCache) {
-				dependencyObjects = await this.compileDependencies(
+			let dependencyWarnings: CompilerWarning[] = [];
+			if (dependencies.length > 0 && dependencyCache) {
+				const dependencyResult = await this.compileDependencies(
+					dependencyCache,
 					dependencies,
 					lvglIncludePath,
 					config.get<string>('emccOptimization', '-O1'),
 					userIncludePaths,
-					defines
+					defines,
+					token,
+					forcedIncludes,
+					configDir
 				);
+
+				if (token?.isCancellationRequested) {
+					return this.createCancelledResult();
+				}
+
+				// Linking without a failed dependency only produces confusing undefined-symbol errors,
+				// so stop here and report the dependency's own errors instead
+				if (dependencyResult.errors.length > 0) {
+					const result: CompilationResult = {
+						success: false,
+						errors: dependencyResult.errors,
+						warnings: dependencyResult.warnings,
+					};
+					if (!headless) {
+						this.updateDiagnostics(mainSourceFile, result);
+					}
+
+					this.outputChannel.appendLine('Compilation failed: dependencies did not compile');
+					result.errors.forEach((err) => {
+						this.outputChannel.appendLine(`  ${err.file}:${err.line}:${err.column}: ${err.message}`);
+					});
+
+					return result;
+				}
+
+				dependencyObjects = dependencyResult.objectFiles;
+				dependencyWarnings = dependencyResult.warnings;
 			}
 
-			// Generate main.c
-			const mainPath = path.join(this.buildPath, 'main.c');
-			MainTemplate.generateMainFile(mainPath);
+			// Generate main.c with the screen entry points for the toolbar's screen selector and the display layout
+			const screens = ScreenDiscovery.getScreens(
+				[mainSourceFile, ...dependencies],
+				projectConfig?.screens,
+				this.outputChannel
+			);
+			const mainPath = path.join(this.buildPath, headless ? 'main_headless.c' : 'main.c');
+			const displays = projectConfig?.displays ?? [];
+			if (headless) {
+				MainTemplate.generateHeadlessMainFile(mainPath, screens);
+			} else {
+				MainTemplate.generateMainFile(mainPath, { screens, rotation: projectConfig?.rotation, displays });
+			}
+			if (!headless && displays.length > 0) {
+				this.outputChannel.appendLine(
+					`Additional displays: ${displays.map((d) => `${d.width}x${d.height}`).join(', ')}`
+				);
+			}
 
 			// Create an output directory for this file
 			const fileName = path.basename(mainSourceFile, '.c');
-			const outputDir = path.join(this.buildPath, fileName);
+			const outputDir = path.join(this.buildPath, headless ? `${fileName}_headless` : fileName);
 
 			if (!fs.existsSync(outputDir)) {
 				fs.mkdirSync(outputDir, { recursive: true });
@@ -200,8 +350,11 @@ export class CompilationManager implements vscode.Disposable {
 
 			// Add SDL driver source files to be compiled during final linking
 			// These files require SDL2 headers which are only available when USE_SDL=2 triggers the port
+			// The headless main renders into memory and needs no SDL drivers
 			let additionalSourceFiles: string[] = [];
-			if (majorVersion >= 9) {
+			if (headless) {
+				this.outputChannel.appendLine('Building the headless module without SDL drivers');
+			} else if (majorVersion >= 9) {
 				// LVGL v9+: Use built-in SDL drivers
 				additionalSourceFiles = this.versionManager.getLvglSdlDriverSourceFiles(lvglVersion);
 				this.outputChannel.appendLine(`Adding ${additionalSourceFiles.length} LVGL v9 SDL driver source files for compilation`);
@@ -227,11 +380,38 @@ export class CompilationManager implements vscode.Disposable {
 				userIncludePaths,
 				defines,
 				additionalSourceFiles,
-				wasmMemorySize
+				wasmMemorySize,
+				token,
+				headless,
+				forcedIncludes,
+				configDir
+			);
+
+			if (result.cancelled || token?.isCancellationRequested) {
+				return this.createCancelledResult();
+			}
+
+			// Also after a failed build, so fixing a broken header triggers the next one
+			if (!headless) {
+				this.mainFileHeaders = this.getUserHeaders(
+					IncludeScanner.findIncludedHeaders(mainSourceFile, userIncludePaths)
+				);
+			}
+
+			result.warnings.push(...dependencyWarnings);
+			result.screens = screens;
+			result.colorQuantization = colorDepthConfig.quantization;
+			result.displays = displays;
+			result.device = DeviceFrameLoader.load(
+				projectConfig?.device,
+				ConfigGenerator.getDpi(projectConfig?.lvConf),
+				this.outputChannel
 			);
 
-			// Update diagnostics
-			this.updateDiagnostics(vscode.Uri.file(mainSourceFile), result);
+			// Update diagnostics; the visual tests report their build problems in the output channel
+			if (!headless) {
+				this.updateDiagnostics(mainSourceFile, result);
+			}
 
 			if (result.success) {
 				this.outputChannel.appendLine('Compilation successful!');
@@ -264,29 +444,33 @@ export class CompilationManager implements vscode.Disposable {
 	/**
 	 * @brief Compiles dependency files with caching support.
 	 *
+	 * @param dependencyCache Cache of the project's dependency objects
 	 * @param dependencies Array of dependency file paths
 	 * @param lvglIncludePath Path to LVGL include directory
 	 * @param optimization Optimization level
 	 * @param userIncludePaths Array of user-specified include paths
 	 * @param defines Array of preprocessor defines
-	 * @returns Array of compiled object file paths
+	 * @param token Cancellation token for the build (optional)
+	 * @param forcedIncludes Headers included before each dependency, such as the source mapping header (optional)
+	 * @param configDir Directory of the lv_conf.h to compile against instead of the one in the LVGL directory (optional)
+	 * @returns Compiled object file paths (cached and new) and the errors/warnings of recompiled files
 	 */
 	private async compileDependencies(
+		dependencyCache: DependencyCache,
 		dependencies: string[],
 		lvglIncludePath: string,
 		optimization: string,
 		userIncludePaths: string[],
-		defines: string[]
-	): Promise<string[]> {
-		if (!this.dependencyCache) {
-			throw new Error('Dependency cache not initialized');
-		}
-
+		defines: string[],
+		token?: vscode.CancellationToken,
+		forcedIncludes: string[] = [],
+		configDir?: string
+	): Promise<DependencyBuildResult> {
 		this.outputChannel.appendLine(`Compiling ${dependencies.length} dependencies...`);
 
-		const cacheDir = this.dependencyCache.getCacheDir();
-		const validCache = this.dependencyCache.getValidCachedObjects(dependencies);
-		const objectFiles: string[] = [];
+		const cacheDir = dependencyCache.getCacheDir();
+		const validCache = dependencyCache.getValidCachedObjects(dependencies);
+		const result: DependencyBuildResult = { objectFiles: [], errors: [], warnings: [] };
 
 		// Separate cached and uncached dependencies
 		const filesToCompile: string[] = [];
@@ -294,7 +478,7 @@ export class CompilationManager implements vscode.Disposable {
 			const cachedObj = validCache.get(dep);
 			if (cachedObj) {
 				this.outputChannel.appendLine(`  ✓ Using cached: ${path.basename(dep)}`);
-				objectFiles.push(cachedObj);
+				result.objectFiles.push(cachedObj);
 			} else {
 				filesToCompile.push(dep);
 			}
@@ -304,28 +488,95 @@ export class CompilationManager implements vscode.Disposable {
 		if (filesToCompile.length > 0) {
 			this.outputChannel.appendLine(`  Compiling ${filesToCompile.length} changed dependencies...`);
 
-			const includePaths = [lvglIncludePath, path.join(lvglIncludePath, 'src'), ...userIncludePaths];
+			const includePaths = [
+				...(configDir ? [configDir] : []),
+				lvglIncludePath,
+				path.join(lvglIncludePath, 'src'),
+				...userIncludePaths,
+			];
 			const compiled = await this.emccWrapper.compileToObjects(
 				filesToCompile,
 				cacheDir,
 				includePaths,
 				optimization,
-				defines
+				configDir ? [...defines, 'LV_CONF_INCLUDE_SIMPLE'] : defines,
+				true,
+				token,
+				forcedIncludes
 			);
 
 			// Update cache for newly compiled files
-			for (let i = 0; i < filesToCompile.length; i++) {
-				const sourcePath = filesToCompile[i];
-				const objPath = compiled[i];
-				if (objPath && fs.existsSync(objPath)) {
-					this.dependencyCache.updateCache(sourcePath, objPath);
-					objectFiles.push(objPath);
+			for (const objectResult of compiled) {
+				result.warnings.push(...objectResult.warnings);
+
+				if (!objectResult.success) {
+					this.outputChannel.appendLine(`  ✗ Failed: ${path.basename(objectResult.sourceFile)}`);
+					result.errors.push(...objectResult.errors);
+					continue;
+				}
+
+				if (fs.existsSync(objectResult.objectFile)) {
+					dependencyCache.updateCache(
+						objectResult.sourceFile,
+						objectResult.objectFile,
+						this.getUserHeaders(objectResult.headers ?? [])
+					);
+					result.objectFiles.push(objectResult.objectFile);
 				}
 			}
 		}
 
-		this.outputChannel.appendLine(`Dependencies compiled: ${objectFiles.length}/${dependencies.length}`);
-		return objectFiles;
+		this.outputChannel.appendLine(`Dependencies compiled: ${result.objectFiles.length}/${dependencies.length}`);
+		return result;
+	}
+
+	/**
+	 * @brief Creates the result of a build that was cancelled by a newer build.
+	 *
+	 * @returns Failed CompilationResult marked as cancelled, without errors.
+	 */
+	private createCancelledResult(): CompilationResult {
+		this.outputChannel.appendLine('Compilation cancelled');
+		return { success: false, cancelled: true, errors: [], warnings: [] };
+	}
+
+	/**
+	 * @brief Filters out headers managed by the extension.
+	 *
+	 * LVGL, lv_drivers, and Emscripten system headers live in the extension's global storage.
+	 * They only change together with settings that are already part of the dependency cache
+	 * key, so tracking them would only slow down cache validation.
+	 *
+	 * @param headers Absolute header paths from a depfile
+	 * @returns Headers that belong to the user's project
+	 */
+	private getUserHeaders(headers: string[]): string[] {
+		const storagePath = path.resolve(this.context.globalStorageUri.fsPath) + path.sep;
+		return headers.filter((header) => !path.resolve(header).startsWith(storagePath));
+	}
+
+	/**
+	 * @brief Gets the user headers the current project's dependencies include.
+	 *
+	 * @returns Header paths to watch for changes (empty in single-file mode)
+	 */
+	public getDependencyHeaders(): string[] {
+		if (!this.currentProjectConfig || !this.dependencyCache) {
+			return [];
+		}
+
+		return this.dependencyCache.getTrackedHeaders(this.currentProjectConfig.dependencies);
+	}
+
+	/**
+	 * @brief Gets the user headers the main file of the last build includes.
+	 *
+	 * Used in both project and single-file mode, since the main file is not compiled with a depfile.
+	 *
+	 * @returns Header paths to watch for changes
+	 */
+	public getMainFileHeaders(): string[] {
+		return this.mainFileHeaders;
 	}
 
 	/**
@@ -350,34 +601,63 @@ export class CompilationManager implements vscode.Disposable {
 	/**
 	 * @brief Updates VS Code diagnostics collection with compilation results.
 	 *
-	 * Converts compilation errors and warnings into VS Code Diagnostic objects
-	 * and associates them with the source file for display in the Problems panel.
+	 * Converts compilation errors and warnings into VS Code Diagnostic objects and groups
+	 * them by the file they occur in, so errors in dependencies and headers show up in the
+	 * right place. Notes and include chains become related information of their diagnostic.
 	 *
-	 * @param fileUri URI of the source file to associate diagnostics with.
+	 * @param fallbackFile Source file for problems that are not tied to a file (e.g., configuration errors).
 	 * @param result CompilationResult containing errors and warnings to display.
 	 */
-	private updateDiagnostics(fileUri: vscode.Uri, result: CompilationResult): void {
-		const diagnostics: vscode.Diagnostic[] = [];
+	private updateDiagnostics(fallbackFile: string, result: CompilationResult): void {
+		const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+		const addDiagnostic = (problem: CompilerError | CompilerWarning, severity: vscode.DiagnosticSeverity) => {
+			const file = problem.file || fallbackFile;
+			const diagnostic = new vscode.Diagnostic(this.toRange(problem.line, problem.column), problem.message, severity);
+
+			if (problem.notes && problem.notes.length > 0) {
+				diagnostic.relatedInformation = problem.notes.map(
+					(note) =>
+						new vscode.DiagnosticRelatedInformation(
+							new vscode.Location(vscode.Uri.file(note.file), this.toRange(note.line, note.column)),
+							note.message
+						)
+				);
+			}
+
+			const diagnostics = diagnosticsByFile.get(file) ?? [];
+			diagnostics.push(diagnostic);
+			diagnosticsByFile.set(file, diagnostics);
+		};
 
 		// Add errors
 		for (const error of result.errors) {
-			const range = new vscode.Range(error.line - 1, error.column - 1, error.line - 1, error.column + 10);
-
-			const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
-
-			diagnostics.push(diagnostic);
+			addDiagnostic(error, vscode.DiagnosticSeverity.Error);
 		}
 
 		// Add warnings
 		for (const warning of result.warnings) {
-			const range = new vscode.Range(warning.line - 1, warning.column - 1, warning.line - 1, warning.column + 10);
-
-			const diagnostic = new vscode.Diagnostic(range, warning.message, vscode.DiagnosticSeverity.Warning);
+			addDiagnostic(warning, vscode.DiagnosticSeverity.Warning);
+		}
 
-			diagnostics.push(diagnostic);
+		// Replace the problems of the previous build, which may have been in other files
+		this.diagnosticCollection.clear();
+		for (const [file, diagnostics] of diagnosticsByFile) {
+			this.diagnosticCollection.set(vscode.Uri.file(file), diagnostics);
 		}
+	}
 
-		this.diagnosticCollection.set(fileUri, diagnostics);
+	/**
+	 * @brief Converts a 1-based compiler location into a diagnostic range.
+	 *
+	 * @param line 1-based line number.
+	 * @param column 1-based column number.
+	 * @returns Range starting at the location and spanning a few characters.
+	 */
+	private toRange(line: number, column: number): vscode.Range {
+		const startLine = Math.max(line - 1, 0);
+		const startColumn = Math.max(column - 1, 0);
+		return new vscode.Range(startLine, startColumn, startLine, startColumn + 11);
 	}
 
 	/**
@@ -400,10 +680,9 @@ export class CompilationManager implements vscode.Disposable {
 	public async clearCache(): Promise<void> {
 		this.libraryBuilder.clearCache();
 
-		// Also clear the dependency cache if it exists
-		if (this.dependencyCache) {
-			this.dependencyCache.clear();
-		}
+		// Also clear the dependency caches if they exist
+		this.dependencyCache?.clear();
+		this.headlessDependencyCache?.clear();
 	}
 
 	/**
@@ -3,11 +3,52 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as child_process from 'child_process';
 import * as util from 'util';
-import { CompilationResult, CompilerError } from '../types';
+import { CompilationResult, CompilerError, CompilerNote, ObjectCompilationResult } from '../types';
 import { EmsdkInstaller } from './emsdkInstaller';
+import { ObjectNaming } from '../utils/objectNaming';
 
 const execFile = util.promisify(child_process.execFile);
 
+/**
+ * Functions of the generated main.c that the webview calls through ccall
+ */
+const EXPORTED_FUNCTIONS = [
+	'_main',
+	'_lvgl_live_preview_state_buffer',
+	'_lvgl_live_preview_state_buffer_size',
+	'_lvgl_live_preview_snapshot_state',
+	'_lvgl_live_preview_set_pending_state',
+	'_lvgl_live_preview_screen_count',
+	'_lvgl_live_preview_active_screen',
+	'_lvgl_live_preview_set_initial_screen',
+	'_lvgl_live_preview_show_screen',
+	'_lvgl_live_preview_pointer_event',
+	'_lvgl_live_preview_tick',
+	'_lvgl_live_preview_refresh_period',
+	'_lvgl_live_preview_clock_set_paused',
+	'_lvgl_live_preview_clock_set_scale',
+	'_lvgl_live_preview_clock_step',
+	'_lvgl_live_preview_widget_tree',
+	'_lvgl_live_preview_widget_area',
+	'_lvgl_live_preview_source_at',
+	'_lvgl_live_preview_widget_props',
+	'_lvgl_live_preview_widget_set_prop',
+	'_lvgl_live_preview_mem_monitor',
+	'_lvgl_live_preview_perf_stats',
+	'_lvgl_live_preview_set_redraw_reporting',
+];
+
+/**
+ * Functions of the generated headless main.c that the visual test runner calls through ccall
+ */
+const HEADLESS_EXPORTED_FUNCTIONS = [
+	'_main',
+	'_lvgl_live_preview_screen_count',
+	'_lvgl_live_preview_headless_width',
+	'_lvgl_live_preview_headless_height',
+	'_lvgl_live_preview_headless_render',
+];
+
 /**
  * @class EmccWrapper
  * @brief Wrapper class for Emscripten compiler (emcc) operations.
@@ -32,39 +73,156 @@ export class EmccWrapper {
 		this.emsdkInstaller = new EmsdkInstaller(context, outputChannel);
 	}
 
+	/**
+	 * @brief Runs emcc and kills it if the build is cancelled.
+	 *
+	 * @param emccPath Path to the emcc executable.
+	 * @param args Command line arguments.
+	 * @param options Options passed to execFile.
+	 * @param token Cancellation token of the build (optional).
+	 * @returns Promise resolving to the process's stdout and stderr.
+	 */
+	private async runEmcc(
+		emccPath: string,
+		args: string[],
+		options: child_process.ExecFileOptions,
+		token?: vscode.CancellationToken
+	): Promise<{ stdout: string; stderr: string }> {
+		const execution = execFile(emccPath, args, options);
+		const kill = () => EmccWrapper.killProcessTree(execution.child);
+		const cancellation = token?.onCancellationRequested(kill);
+
+		if (token?.isCancellationRequested) {
+			kill();
+		}
+
+		try {
+			const { stdout, stderr } = await execution;
+			return { stdout: String(stdout), stderr: String(stderr) };
+		} finally {
+			cancellation?.dispose();
+		}
+	}
+
+	/**
+	 * @brief Kills a compiler process including the processes it started.
+	 *
+	 * On Windows, emcc is a batch file run through cmd.exe, so killing the child only ends the
+	 * shell and leaves the compiler running. taskkill /T ends the whole process tree.
+	 *
+	 * @param child The emcc child process.
+	 */
+	private static killProcessTree(child: child_process.ChildProcess): void {
+		if (child.exitCode !== null) {
+			return;
+		}
+
+		if (process.platform === 'win32' && child.pid !== undefined) {
+			child_process.execFile('taskkill', ['/pid', String(child.pid), '/T', '/F'], () => undefined);
+		} else {
+			child.kill();
+		}
+	}
+
 	/**
 	 * @brief Parses compiler output to extract structured error and warning information.
 	 *
 	 * Parses GCC/Clang style error messages in the format:
 	 * `file:line:column: error|warning: message`
 	 *
+	 * `note:` lines are attached to the preceding error or warning, and `In file included from`
+	 * chains are attached to the diagnostic that follows them. Relative paths are resolved
+	 * against the working directory the compiler was run in.
+	 *
 	 * @param output Raw compiler output string (typically from stderr).
+	 * @param cwd Working directory of the compiler process (default: the extension host's cwd).
 	 * @returns Array of CompilerError objects containing parsed error/warning details.
 	 */
-	private parseCompilerOutput(output: string): CompilerError[] {
+	private parseCompilerOutput(output: string, cwd: string = process.cwd()): CompilerError[] {
 		const errors: CompilerError[] = [];
-		const lines = output.split('\n');
+		const lines = output.split(/\r?\n/);
+		const resolveFile = (file: string) => (path.isAbsolute(file) ? file : path.resolve(cwd, file));
+
+		let includeChain: CompilerNote[] = [];
+		let lastError: CompilerError | undefined;
 
 		for (const line of lines) {
+			// Include chain preceding a diagnostic in a header
+			// Format: "In file included from file:line:" (Clang) or "                 from file:line," (GCC)
+			const includeMatch = line.match(/^(?:In file included from|\s+from)\s+(.+?):(\d+)(?::(\d+))?[:,]$/);
+			if (includeMatch) {
+				const [, file, lineStr, colStr] = includeMatch;
+				includeChain.push({
+					file: resolveFile(file),
+					line: parseInt(lineStr, 10),
+					column: colStr ? parseInt(colStr, 10) : 1,
+					message: 'In file included from here',
+				});
+				continue;
+			}
+
 			// Parse GCC/Clang style error messages
 			// Format: file:line:column: error: message
-			const match = line.match(/^(.+?):(\d+):(\d+):\s*(error|warning):\s*(.+)$/);
+			const match = line.match(/^(.+?):(\d+):(\d+):\s*(fatal error|error|warning|note):\s*(.+)$/);
 
 			if (match) {
 				const [, file, lineStr, colStr, severity, message] = match;
-				errors.push({
-					file,
+				const location = {
+					file: resolveFile(file),
 					line: parseInt(lineStr, 10),
 					column: parseInt(colStr, 10),
-					severity: severity as 'error' | 'warning',
 					message: message.trim(),
-				});
+				};
+
+				if (severity === 'note') {
+					lastError?.notes?.push(location);
+					continue;
+				}
+
+				lastError = {
+					...location,
+					severity: severity === 'warning' ? 'warning' : 'error',
+					notes: includeChain,
+				};
+				includeChain = [];
+				errors.push(lastError);
 			}
 		}
 
 		return errors;
 	}
 
+	/**
+	 * @brief Reads the headers a source file depends on from a Make-style depfile.
+	 *
+	 * Depfiles written by `-MD` have the format `target.o: source.c header1.h header2.h`,
+	 * with backslash line continuations and backslash-escaped spaces in paths.
+	 *
+	 * @param depFile Path to the depfile.
+	 * @param sourceFile Source file the depfile was generated for (excluded from the result).
+	 * @returns Absolute paths of the included headers, or an empty array if the depfile is missing.
+	 */
+	private parseDepFile(depFile: string, sourceFile: string): string[] {
+		if (!fs.existsSync(depFile)) {
+			return [];
+		}
+
+		const content = fs.readFileSync(depFile, 'utf-8').replace(/\\\r?\n/g, ' ');
+
+		// The target ends at the first colon followed by whitespace (drive letters are followed by a slash)
+		const separator = content.search(/:\s/);
+		if (separator < 0) {
+			return [];
+		}
+
+		const prerequisites = content.substring(separator + 1).match(/(?:\\ |\S)+/g) ?? [];
+		const resolvedSource = path.resolve(sourceFile);
+
+		return prerequisites
+			.map((file) => path.resolve(file.replace(/\\ /g, ' ')))
+			.filter((file, index, files) => file !== resolvedSource && files.indexOf(file) === index);
+	}
+
 	/**
 	 * @brief Compiles source files to object files for incremental builds.
 	 *
@@ -77,55 +235,109 @@ export class EmccWrapper {
 	 * @param includePaths Array of include directory paths.
 	 * @param optimization Optimization level flag (default: '-O2').
 	 * @param defines Array of preprocessor defines to add (optional).
-	 * @returns Promise resolving to an array of successfully compiled object file paths.
+	 * @param trackHeaders Whether to write an emcc depfile (-MD) per object and report its headers (optional).
+	 * @param token Cancellation token; running compilers are killed and no further batches are
+	 *              started once it is cancelled (optional).
+	 * @param forcedIncludes Headers included before each source file with -include (optional).
+	 * @returns Promise resolving to one result per source file (in input order), including the
+	 *          errors and warnings parsed from the compiler output. Cancelled files report no
+	 *          errors and files that were never started are left out.
 	 */
 	public async compileToObjects(
 		sourceFiles: string[],
 		outputDir: string,
 		includePaths: string[],
 		optimization: string = '-O2',
-		defines: string[] = []
-	): Promise<string[]> {
+		defines: string[] = [],
+		trackHeaders: boolean = false,
+		token?: vscode.CancellationToken,
+		forcedIncludes: string[] = []
+	): Promise<ObjectCompilationResult[]> {
 		const emccPath = this.emsdkInstaller.getEmccPath();
-		const objectFiles: string[] = [];
+		const results: ObjectCompilationResult[] = [];
 
 		// Compile files in parallel batches for speed
 		const batchSize = 10;
 		for (let i = 0; i < sourceFiles.length; i += batchSize) {
+			if (token?.isCancellationRequested) {
+				break;
+			}
+
 			const batch = sourceFiles.slice(i, Math.min(i + batchSize, sourceFiles.length));
 
-			const promises = batch.map(async (sourceFile) => {
+			const promises = batch.map(async (sourceFile): Promise<ObjectCompilationResult> => {
 				const baseName = path.basename(sourceFile, '.c');
-				const objFile = path.join(outputDir, `${baseName}.o`);
+				const objFile = path.join(outputDir, ObjectNaming.getObjectFileName(sourceFile));
+				const depFile = path.join(outputDir, ObjectNaming.getObjectFileName(sourceFile, '.d'));
 
 				// Build args array for execFile
 				const args = [
 					optimization,
 					'-DLVGL_LIVE_PREVIEW',
 					...defines.map((d) => `-D${d}`),
+					...forcedIncludes.flatMap((header) => ['-include', header]),
 					'-c',
 					sourceFile,
 					'-o',
 					objFile,
 					...includePaths.map((p) => `-I${p}`),
+					...(trackHeaders ? ['-MD', '-MF', depFile] : []),
 				];
 
 				try {
-					await execFile(emccPath, args, {
-						maxBuffer: 10 * 1024 * 1024,
-						shell: process.platform === 'win32', // Use shell on Windows for .bat files
-					});
-					return objFile;
+					const { stderr } = await this.runEmcc(
+						emccPath,
+						args,
+						{
+							maxBuffer: 10 * 1024 * 1024,
+							shell: process.platform === 'win32', // Use shell on Windows for .bat files
+						},
+						token
+					);
+					const problems = this.parseCompilerOutput(stderr || '');
+
+					return {
+						sourceFile,
+						objectFile: objFile,
+						success: true,
+						headers: trackHeaders ? this.parseDepFile(depFile, sourceFile) : undefined,
+						errors: [],
+						warnings: problems.filter((e) => e.severity === 'warning'),
+					};
 				} catch (error: unknown) {
-					const message = error instanceof Error ? error.message : String(error);
+					if (token?.isCancellationRequested) {
+						return { sourceFile, objectFile: objFile, success: false, errors: [], warnings: [] };
+					}
+
+					const err = error as { stderr?: string; message?: string };
+					const message = err.message ?? String(error);
 					this.outputChannel.appendLine(`Failed to compile ${baseName}: ${message}`);
-					return null;
+
+					const problems = this.parseCompilerOutput(err.stderr || '');
+					const errors = problems.filter((e) => e.severity === 'error');
+
+					// Make sure a failed file always reports at least one error
+					if (errors.length === 0) {
+						errors.push({
+							file: sourceFile,
+							line: 1,
+							column: 1,
+							message: `Failed to compile ${path.basename(sourceFile)}: ${message}`,
+							severity: 'error',
+						});
+					}
+
+					return {
+						sourceFile,
+						objectFile: objFile,
+						success: false,
+						errors,
+						warnings: problems.filter((e) => e.severity === 'warning'),
+					};
 				}
 			});
 
-			const results = await Promise.all(promises);
-			const successfulObjects = results.filter((obj) => obj !== null) as string[];
-			objectFiles.push(...successfulObjects);
+			results.push(...(await Promise.all(promises)));
 
 			if ((i + batchSize) % 50 === 0 || i + batchSize >= sourceFiles.length) {
 				this.outputChannel.appendLine(
@@ -134,7 +346,7 @@ export class EmccWrapper {
 			}
 		}
 
-		return objectFiles;
+		return results;
 	}
 
 	/**
@@ -154,6 +366,10 @@ export class EmccWrapper {
 	 * @param defines Array of preprocessor defines (optional).
 	 * @param additionalSourceFiles Array of additional source files to compile alongside main and user files (optional).
 	 * @param wasmMemoryMB Memory size in MB for the generated WebAssembly module (default: 128).
+	 * @param token Cancellation token; emcc is killed when it is cancelled (optional).
+	 * @param headless Whether mainFile is the headless main of the visual tests, which exports other functions (default: false).
+	 * @param forcedIncludes Headers included before each source file with -include (optional).
+	 * @param configDir Directory of the lv_conf.h to compile against instead of the one in the LVGL directory (optional).
 	 * @returns Promise resolving to CompilationResult with success status, output paths, and any errors/warnings.
 	 */
 	public async compileWithObjects(
@@ -166,7 +382,11 @@ export class EmccWrapper {
 		userIncludePaths: string[] = [],
 		defines: string[] = [],
 		additionalSourceFiles: string[] = [],
-		wasmMemoryMB: number = 128
+		wasmMemoryMB: number = 128,
+		token?: vscode.CancellationToken,
+		headless: boolean = false,
+		forcedIncludes: string[] = [],
+		configDir?: string
 	): Promise<CompilationResult> {
 		const emccPath = this.emsdkInstaller.getEmccPath();
 		const outputName = path.join(outputDir, 'output');
@@ -193,6 +413,7 @@ export class EmccWrapper {
 			'-O0', // Fast linking, objects already optimized
 			'-DLVGL_LIVE_PREVIEW',
 			...defines.map((d) => `-D${d}`),
+			...forcedIncludes.flatMap((header) => ['-include', header]),
 			'-s',
 			'WASM=1',
 			'-s',
@@ -200,9 +421,9 @@ export class EmccWrapper {
 			'-s',
 			'ALLOW_MEMORY_GROWTH=1',
 			'-s',
-			'EXPORTED_FUNCTIONS=["_main"]',
+			`EXPORTED_FUNCTIONS=${JSON.stringify(headless ? HEADLESS_EXPORTED_FUNCTIONS : EXPORTED_FUNCTIONS)}`,
 			'-s',
-			'EXPORTED_RUNTIME_METHODS=["ccall","cwrap"]',
+			'EXPORTED_RUNTIME_METHODS=["ccall","cwrap","HEAPU8"]',
 			'-s',
 			`INITIAL_MEMORY=${wasmMemoryMB * 1024 * 1024}`,
 			'-s',
@@ -211,6 +432,8 @@ export class EmccWrapper {
 			'ASSERTIONS=0', // Disable assertions for speed
 			'-s',
 			'SAFE_HEAP=0', // Disable safe heap for speed
+			// lv_conf.h is found through the include paths with LV_CONF_INCLUDE_SIMPLE, so it must come first
+			...(configDir ? ['-DLV_CONF_INCLUDE_SIMPLE', `-I${configDir}`] : []),
 			`-I${lvglIncludePath}`,
 			`-I${path.join(lvglIncludePath, 'src')}`,
 			...userIncludePaths.map((p) => `-I${p}`),
@@ -225,12 +448,17 @@ export class EmccWrapper {
 		try {
 			const startTime = Date.now();
 
-			const { stderr, stdout } = await execFile(emccPath, args, {
-				cwd: outputDir,
-				maxBuffer: 10 * 1024 * 1024,
-				timeout: 120000, // 2-minute timeout for a first-time SDL2 build
-				shell: process.platform === 'win32', // Use shell on Windows for .bat files
-			});
+			const { stderr, stdout } = await this.runEmcc(
+				emccPath,
+				args,
+				{
+					cwd: outputDir,
+					maxBuffer: 10 * 1024 * 1024,
+					timeout: 120000, // 2-minute timeout for a first-time SDL2 build
+					shell: process.platform === 'win32', // Use shell on Windows for .bat files
+				},
+				token
+			);
 
 			const duration = Date.now() - startTime;
 			this.outputChannel.appendLine(`✓ Compilation completed in ${duration}ms`);
@@ -244,7 +472,7 @@ export class EmccWrapper {
 				this.outputChannel.appendLine(stderr);
 			}
 
-			const errors = this.parseCompilerOutput(stderr || '');
+			const errors = this.parseCompilerOutput(stderr || '', outputDir);
 			const warnings = errors.filter((e) => e.severity === 'warning');
 			const actualErrors = errors.filter((e) => e.severity === 'error');
 
@@ -256,6 +484,11 @@ export class EmccWrapper {
 				warnings,
 			};
 		} catch (error: unknown) {
+			if (token?.isCancellationRequested) {
+				this.outputChannel.appendLine('✗ Compilation cancelled');
+				return { success: false, cancelled: true, errors: [], warnings: [] };
+			}
+
 			const err = error as { stderr?: string; stdout?: string; message?: string };
 			this.outputChannel.appendLine(`✗ Compilation failed: ${err.message ?? 'Unknown error'}`);
 
@@ -270,7 +503,7 @@ export class EmccWrapper {
 			}
 
 			const errorOutput = err.stderr || err.stdout || err.message || '';
-			const errors = this.parseCompilerOutput(errorOutput);
+			const errors = this.parseCompilerOutput(errorOutput, outputDir);
 
 			return {
 				success: false,
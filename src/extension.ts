@@ -3,10 +3,23 @@ import { PreviewManager } from './preview/previewManager';
 import { CompilationManager } from './compiler/compilationManager';
 import { StatusBarManager } from './ui/statusBarManager';
 import { EmsdkInstaller } from './compiler/emsdkInstaller';
+import { RuntimeLogManager } from './runtime/runtimeLogManager';
+import { VisualTestManager } from './visualTest/visualTestManager';
+import { OutputFolder } from './utils/outputFolder';
+import { WidgetTreeManager } from './ui/widgetTreeManager';
+import { PropertyElement, PropertyInspectorManager } from './ui/propertyInspectorManager';
+import { MemoryMonitorManager } from './ui/memoryMonitorManager';
+import { PerformanceMonitorManager } from './ui/performanceMonitorManager';
 
 let previewManager: PreviewManager | undefined;
 let compilationManager: CompilationManager | undefined;
 let statusBarManager: StatusBarManager | undefined;
+let runtimeLogManager: RuntimeLogManager | undefined;
+let visualTestManager: VisualTestManager | undefined;
+let widgetTreeManager: WidgetTreeManager | undefined;
+let propertyInspectorManager: PropertyInspectorManager | undefined;
+let memoryMonitorManager: MemoryMonitorManager | undefined;
+let performanceMonitorManager: PerformanceMonitorManager | undefined;
 let outputChannel: vscode.OutputChannel;
 
 /**
@@ -24,15 +37,34 @@ let outputChannel: vscode.OutputChannel;
  *          1. Creates an output channel for logging
  *          2. Initializes StatusBarManager for UI status updates
  *          3. Initializes CompilationManager for handling LVGL code compilation
- *          4. Initializes PreviewManager for webview panel management
- *          5. Shows a welcome message on the first run
- *          6. Registers extension commands (start, stop, rebuild, clearCache)
+ *          4. Initializes RuntimeLogManager for the "LVGL Runtime" output channel
+ *          5. Initializes PreviewManager for webview panel management
+ *          6. Initializes VisualTestManager for the visual regression tests, WidgetTreeManager
+ *             for the widget tree view, PropertyInspectorManager for the property inspector,
+ *             MemoryMonitorManager for the memory usage and PerformanceMonitorManager for the frame
+ *             timing in the status bar
+ *          7. Shows a welcome message on the first run
+ *          8. Registers extension commands (start, stop, rebuild, clearCache, screenshot, video, visual tests, input recording,
+ *             widget tree, property inspector, performance mode)
  *
  * @note Registered commands:
  *       - lvgl-preview.start: Starts live preview for the active C file
  *       - lvgl-preview.stop: Stops the preview and file watcher
  *       - lvgl-preview.rebuild: Forces full rebuild of preview
  *       - lvgl-preview.clearCache: Clears compilation cache
+ *       - lvgl-preview.screenshot: Saves the current preview frame as PNG
+ *       - lvgl-preview.toggleVideoCapture: Starts or stops capturing the preview as WebM video
+ *       - lvgl-preview.runVisualTests: Compares the rendered entry points against the baseline PNGs
+ *       - lvgl-preview.updateVisualBaselines: Replaces the baseline PNGs with the rendered entry points
+ *       - lvgl-preview.startRecording: Starts recording input in the preview
+ *       - lvgl-preview.stopRecording: Stops recording and saves the recording as JSON
+ *       - lvgl-preview.replayRecording: Reloads the preview and replays a recording after each reload
+ *       - lvgl-preview.stopReplay: Stops replaying the recording
+ *       - lvgl-preview.refreshWidgetTree: Reads the widget tree of the running preview again
+ *       - lvgl-preview.editWidgetProperty: Sets a style property of the inspected object
+ *       - lvgl-preview.copyWidgetPropertyAsC: Copies one inspected property as C code
+ *       - lvgl-preview.copyWidgetPropertiesAsC: Copies the edited (or all) inspected properties as C code
+ *       - lvgl-preview.togglePerformanceMode: Turns the performance overlays and frame timing on or off
  */
 export async function activate(context: vscode.ExtensionContext) {
 	outputChannel = vscode.window.createOutputChannel('LVGL Preview');
@@ -45,7 +77,55 @@ export async function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(statusBarManager);
 
 	compilationManager = new CompilationManager(context, outputChannel);
-	previewManager = new PreviewManager(context, compilationManager, outputChannel);
+	runtimeLogManager = new RuntimeLogManager();
+	context.subscriptions.push(runtimeLogManager);
+	previewManager = new PreviewManager(
+		context,
+		compilationManager,
+		runtimeLogManager,
+		statusBarManager,
+		outputChannel
+	);
+	visualTestManager = new VisualTestManager(compilationManager, outputChannel);
+	propertyInspectorManager = new PropertyInspectorManager((id, name, value) =>
+		previewManager?.setWidgetProperty(id, name, value)
+	);
+	context.subscriptions.push(propertyInspectorManager);
+	widgetTreeManager = new WidgetTreeManager((id) => {
+		previewManager?.highlightWidget(id);
+		propertyInspectorManager?.setWidget(id);
+		if (id !== null) {
+			previewManager?.requestWidgetProperties(id);
+		}
+	});
+	context.subscriptions.push(widgetTreeManager);
+	context.subscriptions.push(
+		previewManager.onDidUpdateWidgetTree((screens) => {
+			widgetTreeManager?.setTree(screens);
+			// Reads the inspected object again, which also clears the inspector once the object is gone
+			const inspectedId = propertyInspectorManager?.getWidgetId();
+			if (inspectedId !== undefined) {
+				if (screens.length > 0) {
+					previewManager?.requestWidgetProperties(inspectedId);
+				} else {
+					propertyInspectorManager?.setWidget(null);
+				}
+			}
+		})
+	);
+	context.subscriptions.push(
+		previewManager.onDidUpdateWidgetProperties(({ id, properties }) =>
+			propertyInspectorManager?.setProperties(id, properties)
+		)
+	);
+	memoryMonitorManager = new MemoryMonitorManager();
+	context.subscriptions.push(memoryMonitorManager);
+	context.subscriptions.push(previewManager.onDidUpdateMemoryUsage((usage) => memoryMonitorManager?.update(usage)));
+	performanceMonitorManager = new PerformanceMonitorManager();
+	context.subscriptions.push(performanceMonitorManager);
+	context.subscriptions.push(
+		previewManager.onDidUpdatePerformanceStats((stats) => performanceMonitorManager?.update(stats))
+	);
 
 	// Check if this is the first run
 	const hasShownWelcome = context.globalState.get<boolean>('hasShownWelcome', false);
@@ -104,7 +184,6 @@ export async function activate(context: vscode.ExtensionContext) {
 				}
 
 				await previewManager?.startPreview(editor.document.uri);
-				statusBarManager?.setStatus('running');
 			} catch (error: unknown) {
 				statusBarManager?.setStatus('error');
 				const errorMessage = error instanceof Error ? error.message : String(error);
@@ -135,14 +214,165 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(
 		vscode.commands.registerCommand('lvgl-preview.rebuild', async () => {
+			if (!previewManager?.isRunning()) {
+				vscode.window.showErrorMessage('No LVGL preview is running');
+				return;
+			}
 			outputChannel.appendLine('Rebuilding preview');
 			statusBarManager?.setStatus('compiling');
 			await compilationManager?.clearCache();
 			await previewManager?.rebuild();
-			statusBarManager?.setStatus('running');
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.screenshot', () => {
+			if (!previewManager?.isRunning()) {
+				vscode.window.showErrorMessage('No LVGL preview is running');
+				return;
+			}
+			outputChannel.appendLine('Taking screenshot');
+			previewManager.requestScreenshot();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.toggleVideoCapture', () => {
+			if (!previewManager?.isRunning()) {
+				vscode.window.showErrorMessage('No LVGL preview is running');
+				return;
+			}
+			previewManager.toggleVideoCapture();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.startRecording', () => {
+			if (!previewManager?.isRunning()) {
+				vscode.window.showErrorMessage('No LVGL preview is running');
+				return;
+			}
+			if (previewManager.isRecording()) {
+				vscode.window.showInformationMessage('Input is already being recorded');
+				return;
+			}
+			previewManager.startRecording();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.stopRecording', async () => {
+			if (!previewManager?.isRecording()) {
+				vscode.window.showInformationMessage('No input is being recorded');
+				return;
+			}
+			await previewManager.stopRecording();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.replayRecording', async (fileUri?: vscode.Uri) => {
+			const currentFile = previewManager?.getCurrentFile();
+			if (!previewManager?.isRunning() || !currentFile) {
+				vscode.window.showErrorMessage('Start the LVGL preview to replay input');
+				return;
+			}
+
+			if (!fileUri) {
+				const files = await vscode.window.showOpenDialog({
+					defaultUri: vscode.Uri.file(OutputFolder.resolve('recordingFolder', 'recordings', currentFile)),
+					filters: { 'Input recordings': ['json'] },
+					openLabel: 'Replay',
+				});
+				fileUri = files?.[0];
+			}
+			if (!fileUri) {
+				return;
+			}
+
+			try {
+				await previewManager.replay(fileUri);
+			} catch (error: unknown) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				outputChannel.appendLine(`Cannot replay input recording: ${errorMessage}`);
+				vscode.window.showErrorMessage(`Cannot replay input recording: ${errorMessage}`);
+			}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.stopReplay', () => {
+			previewManager?.stopReplay();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.editWidgetProperty', (element: PropertyElement) =>
+			propertyInspectorManager?.editProperty(element)
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.copyWidgetPropertyAsC', (element: PropertyElement) =>
+			propertyInspectorManager?.copyAsC(element)
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.copyWidgetPropertiesAsC', () =>
+			propertyInspectorManager?.copyAsC()
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.refreshWidgetTree', () => {
+			if (!previewManager?.isRunning()) {
+				vscode.window.showErrorMessage('No LVGL preview is running');
+				return;
+			}
+			previewManager.requestWidgetTree();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('lvgl-preview.togglePerformanceMode', async () => {
+			// Updates the setting where it is defined, so a workspace value is not left overriding it
+			const config = vscode.workspace.getConfiguration('lvglPreview');
+			const enabled = config.get<boolean>('performanceMode', false);
+			const target =
+				config.inspect<boolean>('performanceMode')?.workspaceValue !== undefined
+					? vscode.ConfigurationTarget.Workspace
+					: vscode.ConfigurationTarget.Global;
+			await config.update('performanceMode', !enabled, target);
+			vscode.window.setStatusBarMessage(`LVGL performance mode ${enabled ? 'off' : 'on'}`, 3000);
+		})
+	);
+
+	for (const [command, updateBaselines] of [
+		['lvgl-preview.runVisualTests', false],
+		['lvgl-preview.updateVisualBaselines', true],
+	] as const) {
+		context.subscriptions.push(
+			vscode.commands.registerCommand(command, async () => {
+				const editor = vscode.window.activeTextEditor;
+				const fileUri =
+					editor?.document.languageId === 'c' ? editor.document.uri : previewManager?.getCurrentFile();
+				if (!fileUri) {
+					vscode.window.showErrorMessage('Open a C file or start a preview to run the visual tests');
+					return;
+				}
+
+				try {
+					await visualTestManager?.run(fileUri, updateBaselines);
+				} catch (error: unknown) {
+					const errorMessage = error instanceof Error ? error.message : String(error);
+					outputChannel.appendLine(`Visual tests failed to run: ${errorMessage}`);
+					vscode.window.showErrorMessage(`Visual tests failed to run: ${errorMessage}`);
+				}
+			})
+		);
+	}
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('lvgl-preview.clearCache', async () => {
 			outputChannel.appendLine('Clearing cache');
@@ -171,6 +401,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			const needsRebuild =
 				event.affectsConfiguration('lvglPreview.displayWidth') ||
 				event.affectsConfiguration('lvglPreview.displayHeight') ||
+				event.affectsConfiguration('lvglPreview.colorDepth') ||
 				event.affectsConfiguration('lvglPreview.emccOptimization') ||
 				event.affectsConfiguration('lvglPreview.lvglVersion');
 
@@ -187,7 +418,17 @@ export async function activate(context: vscode.ExtensionContext) {
 				statusBarManager?.setStatus('compiling');
 				await compilationManager.clearCache();
 				await previewManager.rebuild();
-				statusBarManager?.setStatus('running');
+			} else if (
+				event.affectsConfiguration('lvglPreview.sourceMapping') ||
+				event.affectsConfiguration('lvglPreview.performanceMode')
+			) {
+				// LVGL and dependencies built with the other setting are cached under a different key
+				outputChannel.appendLine('Source mapping or performance mode changed, rebuilding preview...');
+				statusBarManager?.setStatus('compiling');
+				await previewManager.rebuild();
+			} else if (event.affectsConfiguration('lvglPreview.monitorDpi')) {
+				outputChannel.appendLine('Monitor DPI changed, updating the preview zoom...');
+				previewManager.updateView();
 			} else if (needsWatcherRestart) {
 				outputChannel.appendLine('File watcher settings changed, restarting preview...');
 				void vscode.window.showInformationMessage('LVGL Preview settings changed. Restarting preview...');
@@ -198,7 +439,6 @@ export async function activate(context: vscode.ExtensionContext) {
 					statusBarManager?.setStatus('initializing');
 					await previewManager.stopPreview();
 					await previewManager.startPreview(currentFile);
-					statusBarManager?.setStatus('running');
 				}
 			}
 		})
@@ -1,11 +1,67 @@
 import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { ColorQuantization } from '../types';
+
+/**
+ * @interface ColorDepthConfig
+ * @brief How a target colour depth is rendered in the preview
+ */
+export interface ColorDepthConfig {
+	/** Colour depth of the target panel */
+	targetColorDepth: number;
+	/** LV_COLOR_DEPTH LVGL is built with */
+	lvglColorDepth: number;
+	/** Quantisation the webview applies when LVGL cannot render the target depth with SDL */
+	quantization?: ColorQuantization;
+}
 
 /**
  * @class ConfigGenerator
  * @brief Utility class for generating LVGL configuration files.
  */
 export class ConfigGenerator {
-	public static generateLvConf(outputPath: string, displayWidth: number, displayHeight: number, lvglMemoryKB: number = 256): void {
+	/** LV_DPI_DEF of the generated configuration */
+	private static readonly DEFAULT_DPI = 130;
+
+	/**
+	 * @brief Writes the lv_conf.h used for the preview build.
+	 *
+	 * Without a project lv_conf.h, a default configuration with all widgets and fonts enabled
+	 * is generated. Otherwise the project's file is used and the preview-specific settings are
+	 * forced on top of it (see generateProjectLvConf()).
+	 *
+	 * @param outputPath Path of the lv_conf.h to write
+	 * @param displayWidth Display width in pixels
+	 * @param displayHeight Display height in pixels
+	 * @param lvglMemoryKB Size of the LVGL heap in KB (default: 256)
+	 * @param colorDepth LV_COLOR_DEPTH to build LVGL with (default: 32)
+	 * @param projectLvConfPath Path to the project's own lv_conf.h (optional)
+	 * @param performanceMode Whether to enable LVGL's performance and memory monitors (default: false)
+	 */
+	public static generateLvConf(
+		outputPath: string,
+		displayWidth: number,
+		displayHeight: number,
+		lvglMemoryKB: number = 256,
+		colorDepth: number = 32,
+		projectLvConfPath?: string,
+		performanceMode: boolean = false
+	): void {
+		if (projectLvConfPath) {
+			this.generateProjectLvConf(
+				outputPath,
+				projectLvConfPath,
+				displayWidth,
+				displayHeight,
+				lvglMemoryKB,
+				colorDepth,
+				performanceMode
+			);
+			return;
+		}
+
+		const monitors = performanceMode ? 1 : 0;
+
 		const config = `
 /**
  * @file lv_conf.h
@@ -27,11 +83,14 @@ export class ConfigGenerator {
 #define SDL_HOR_RES ${displayWidth}
 #define SDL_VER_RES ${displayHeight}
 
+/* Software renderer: keeps the canvas readable for colour quantisation in the webview */
+#define LV_SDL_ACCELERATED 0
+
 /*====================
    COLOR SETTINGS
  *====================*/
 
-#define LV_COLOR_DEPTH 32
+#define LV_COLOR_DEPTH ${colorDepth}
 #define LV_COLOR_16_SWAP 0
 #define LV_COLOR_SCREEN_TRANSP 0
 #define LV_COLOR_MIX_ROUND_OFS 0
@@ -53,7 +112,7 @@ export class ConfigGenerator {
 #define LV_TICK_CUSTOM 1
 #define LV_TICK_CUSTOM_INCLUDE <SDL2/SDL.h>
 #define LV_TICK_CUSTOM_SYS_TIME_EXPR (SDL_GetTicks())
-#define LV_DPI_DEF 130
+#define LV_DPI_DEF ${this.DEFAULT_DPI}
 
 /*=================
    DISPLAY
@@ -140,14 +199,251 @@ export class ConfigGenerator {
 /* Others */
 #define LV_USE_SNAPSHOT 1
 #define LV_USE_SYSMON 1
-#define LV_USE_PERF_MONITOR 0
-#define LV_USE_MEM_MONITOR 0
+
+/* Performance and memory overlays (lvglPreview.performanceMode) */
+#define LV_USE_PERF_MONITOR ${monitors}
+#define LV_USE_MEM_MONITOR ${monitors}
 
 /* Display dimensions */
 #define MY_DISP_HOR_RES ${displayWidth}
 #define MY_DISP_VER_RES ${displayHeight}
 
 #endif /*LV_CONF_H*/
+`;
+
+		fs.writeFileSync(outputPath, config);
+	}
+
+	/**
+	 * @brief Works out how a target colour depth is rendered in the preview.
+	 *
+	 * The project's lv_conf.h takes precedence over the colour depth setting. The SDL drivers
+	 * cannot display every depth: LVGL v9 has no RGB332 format (8-bit is grayscale) and its SDL
+	 * window does not support 1-bit, so for these LVGL renders in 32-bit and the webview
+	 * quantises the canvas instead. LVGL v8 has no 24-bit depth, which looks the same as 32-bit.
+	 *
+	 * @param colorDepth Colour depth from the lvglPreview.colorDepth setting
+	 * @param majorVersion LVGL major version
+	 * @param projectLvConfPath Path to the project's own lv_conf.h (optional)
+	 * @returns The LVGL colour depth and the quantisation to apply in the webview
+	 */
+	public static getColorDepthConfig(
+		colorDepth: number,
+		majorVersion: number,
+		projectLvConfPath?: string
+	): ColorDepthConfig {
+		const targetColorDepth = (projectLvConfPath && this.readLvColorDepth(projectLvConfPath)) || colorDepth;
+
+		if (majorVersion >= 9) {
+			if (targetColorDepth === 1) {
+				return { targetColorDepth, lvglColorDepth: 32, quantization: 'mono' };
+			}
+			if (targetColorDepth === 8) {
+				return { targetColorDepth, lvglColorDepth: 32, quantization: 'rgb332' };
+			}
+		} else if (targetColorDepth === 24) {
+			return { targetColorDepth, lvglColorDepth: 32 };
+		}
+
+		return { targetColorDepth, lvglColorDepth: targetColorDepth };
+	}
+
+	/**
+	 * @brief Reads LV_COLOR_DEPTH from a project lv_conf.h.
+	 *
+	 * @param lvConfPath Path to the project's lv_conf.h
+	 * @returns The colour depth, or undefined if the file does not define a numeric one
+	 */
+	private static readLvColorDepth(lvConfPath: string): number | undefined {
+		const match = fs.readFileSync(lvConfPath, 'utf-8').match(/^\s*#\s*define\s+LV_COLOR_DEPTH\s+(\d+)/m);
+		return match ? parseInt(match[1], 10) : undefined;
+	}
+
+	/**
+	 * @brief Gets the LV_DPI_DEF the preview is built with.
+	 *
+	 * @param projectLvConfPath Path to the project's lv_conf.h, if any
+	 * @returns LV_DPI_DEF of the project lv_conf.h, or the default of the generated configuration
+	 */
+	public static getDpi(projectLvConfPath?: string): number {
+		if (projectLvConfPath) {
+			const match = fs.readFileSync(projectLvConfPath, 'utf-8').match(/^\s*#\s*define\s+LV_DPI_DEF\s+(\d+)/m);
+			if (match) {
+				return parseInt(match[1], 10);
+			}
+		}
+		return this.DEFAULT_DPI;
+	}
+
+	/**
+	 * @brief Gets a short content hash of a project lv_conf.h for use in cache keys.
+	 *
+	 * @param lvConfPath Path to the project's lv_conf.h
+	 * @returns First 8 hex characters of the SHA-256 of the file content
+	 */
+	public static hashLvConf(lvConfPath: string): string {
+		return crypto.createHash('sha256').update(fs.readFileSync(lvConfPath)).digest('hex').substring(0, 8);
+	}
+
+	/**
+	 * @brief Writes the project's lv_conf.h followed by the settings the preview depends on.
+	 *
+	 * The project's colour depth, fonts, widgets and features are kept. The overrides that
+	 * follow its content switch to the SDL driver and SDL tick, size the LVGL heap from the
+	 * extension settings, and disable OS, GPU and platform drivers that cannot build for WASM.
+	 * Performance mode also turns on LVGL's performance and memory monitors.
+	 *
+	 * @param outputPath Path of the lv_conf.h to write
+	 * @param projectLvConfPath Path to the project's lv_conf.h
+	 * @param displayWidth Display width in pixels
+	 * @param displayHeight Display height in pixels
+	 * @param lvglMemoryKB Size of the LVGL heap in KB
+	 * @param colorDepth LV_COLOR_DEPTH to build LVGL with (see getColorDepthConfig())
+	 * @param performanceMode Whether to enable LVGL's performance and memory monitors
+	 */
+	private static generateProjectLvConf(
+		outputPath: string,
+		projectLvConfPath: string,
+		displayWidth: number,
+		displayHeight: number,
+		lvglMemoryKB: number,
+		colorDepth: number,
+		performanceMode: boolean
+	): void {
+		const projectConfig = fs.readFileSync(projectLvConfPath, 'utf-8');
+		const performanceOverrides = performanceMode
+			? `
+/* Performance and memory overlays (lvglPreview.performanceMode) */
+#undef LV_USE_SYSMON
+#define LV_USE_SYSMON 1
+#undef LV_USE_PERF_MONITOR
+#define LV_USE_PERF_MONITOR 1
+#undef LV_USE_MEM_MONITOR
+#define LV_USE_MEM_MONITOR 1
+`
+			: '';
+
+		const config = `/**
+ * @file lv_conf.h
+ * Project configuration (${projectLvConfPath.replace(/\\/g, '/')})
+ * with LVGL Live Preview overrides – Generated by LVGL Live Preview
+ */
+
+${projectConfig}
+
+/*==========================================
+   LVGL LIVE PREVIEW OVERRIDES
+   Forced on top of the project configuration
+ *==========================================*/
+
+#ifndef LVGL_LIVE_PREVIEW_CONF_OVERRIDES
+#define LVGL_LIVE_PREVIEW_CONF_OVERRIDES
+
+#include <stdint.h>
+
+/* SDL driver (LVGL v9+) */
+#undef LV_USE_SDL
+#define LV_USE_SDL 1
+#undef LV_SDL_INCLUDE_PATH
+#define LV_SDL_INCLUDE_PATH <SDL2/SDL.h>
+#undef SDL_HOR_RES
+#define SDL_HOR_RES ${displayWidth}
+#undef SDL_VER_RES
+#define SDL_VER_RES ${displayHeight}
+#undef LV_SDL_ACCELERATED
+#define LV_SDL_ACCELERATED 0
+
+/* Colour depth the SDL driver can display (see the lvglPreview.colorDepth setting) */
+#undef LV_COLOR_DEPTH
+#define LV_COLOR_DEPTH ${colorDepth}
+
+/* Display dimensions (LVGL v8 with lv_drivers) */
+#undef MY_DISP_HOR_RES
+#define MY_DISP_HOR_RES ${displayWidth}
+#undef MY_DISP_VER_RES
+#define MY_DISP_VER_RES ${displayHeight}
+
+/* Memory: built-in allocator sized by the lvglPreview.lvglMemorySize setting */
+#undef LV_MEM_CUSTOM
+#define LV_MEM_CUSTOM 0
+#undef LV_USE_STDLIB_MALLOC
+#define LV_USE_STDLIB_MALLOC LV_STDLIB_BUILTIN
+#undef LV_MEM_SIZE
+#define LV_MEM_SIZE (${lvglMemoryKB}U * 1024U)
+#undef LV_MEM_ADR
+#define LV_MEM_ADR 0
+
+/* Tick from SDL */
+#undef LV_TICK_CUSTOM
+#define LV_TICK_CUSTOM 1
+#undef LV_TICK_CUSTOM_INCLUDE
+#define LV_TICK_CUSTOM_INCLUDE <SDL2/SDL.h>
+#undef LV_TICK_CUSTOM_SYS_TIME_EXPR
+#define LV_TICK_CUSTOM_SYS_TIME_EXPR (SDL_GetTicks())
+
+/* No OS: the preview runs LVGL from the Emscripten main loop */
+#undef LV_USE_OS
+#define LV_USE_OS LV_OS_NONE
+
+/* Runtime logs are forwarded to the LVGL Runtime output channel through printf */
+#undef LV_LOG_PRINTF
+#define LV_LOG_PRINTF 1
+
+/* Software rendering only: GPU and SIMD back ends cannot build for WASM */
+#undef LV_USE_DRAW_SW_ASM
+#define LV_USE_DRAW_SW_ASM LV_DRAW_SW_ASM_NONE
+#undef LV_USE_DRAW_VGLITE
+#define LV_USE_DRAW_VGLITE 0
+#undef LV_USE_DRAW_PXP
+#define LV_USE_DRAW_PXP 0
+#undef LV_USE_DRAW_DAVE2D
+#define LV_USE_DRAW_DAVE2D 0
+#undef LV_USE_DRAW_DMA2D
+#define LV_USE_DRAW_DMA2D 0
+#undef LV_USE_DRAW_SDL
+#define LV_USE_DRAW_SDL 0
+#undef LV_USE_DRAW_ARM2D_SYNC
+#define LV_USE_DRAW_ARM2D_SYNC 0
+#undef LV_USE_GPU_ARM2D
+#define LV_USE_GPU_ARM2D 0
+#undef LV_USE_GPU_STM32_DMA2D
+#define LV_USE_GPU_STM32_DMA2D 0
+#undef LV_USE_GPU_RA6M3_G2D
+#define LV_USE_GPU_RA6M3_G2D 0
+#undef LV_USE_GPU_SWM341_DMA2D
+#define LV_USE_GPU_SWM341_DMA2D 0
+#undef LV_USE_GPU_NXP_PXP
+#define LV_USE_GPU_NXP_PXP 0
+#undef LV_USE_GPU_NXP_VG_LITE
+#define LV_USE_GPU_NXP_VG_LITE 0
+#undef LV_USE_GPU_SDL
+#define LV_USE_GPU_SDL 0
+
+/* Platform drivers and file systems that need native OS headers */
+#undef LV_USE_LINUX_FBDEV
+#define LV_USE_LINUX_FBDEV 0
+#undef LV_USE_LINUX_DRM
+#define LV_USE_LINUX_DRM 0
+#undef LV_USE_EVDEV
+#define LV_USE_EVDEV 0
+#undef LV_USE_LIBINPUT
+#define LV_USE_LIBINPUT 0
+#undef LV_USE_NUTTX
+#define LV_USE_NUTTX 0
+#undef LV_USE_WINDOWS
+#define LV_USE_WINDOWS 0
+#undef LV_USE_X11
+#define LV_USE_X11 0
+#undef LV_USE_WAYLAND
+#define LV_USE_WAYLAND 0
+#undef LV_USE_FS_WIN32
+#define LV_USE_FS_WIN32 0
+#undef LV_USE_FS_FATFS
+#define LV_USE_FS_FATFS 0
+#undef LV_USE_FS_LITTLEFS
+#define LV_USE_FS_LITTLEFS 0
+${performanceOverrides}
+#endif /*LVGL_LIVE_PREVIEW_CONF_OVERRIDES*/
 `;
 
 		fs.writeFileSync(outputPath, config);
@@ -14,7 +14,8 @@ import { EmccWrapper } from '../compiler/emccWrapper';
  * This class handles:
  * - Compiling LVGL source files to object files using Emscripten
  * - Caching compiled object files for reuse
- * - Managing cache invalidation based on version, optimization, and display settings
+ * - Managing cache invalidation based on version, optimization, display settings, colour depth,
+ *   the content of the project's lv_conf.h, and performance mode
  *
  */
 export class LibraryBuilder {
@@ -52,13 +53,27 @@ export class LibraryBuilder {
 	 * 4. Compiles all LVGL source files to object files
 	 * 5. Caches the results for future builds
 	 *
-	 * The cache key is based on version, optimization level, and display dimensions.
+	 * The cache key is based on version, optimization level, display dimensions, colour depth,
+	 * the content hash of the project's lv_conf.h if one is used, and performance mode, which
+	 * builds a separate variant with LVGL's performance and memory monitors enabled.
+	 *
+	 * User code is compiled against the lv_conf.h in the LVGL directory, unless a configDir is
+	 * given: then the lv_conf.h of these objects is copied there and the LVGL directory's copy is
+	 * only replaced when the objects have to be built.
 	 *
 	 * @param {string} version - The LVGL version to build (e.g., "8.3.0").
+	 * @param {string} [projectLvConfPath] - The project's own lv_conf.h to use instead of the generated one.
+	 * @param {boolean} [performanceMode] - Whether to build the variant with the performance monitors.
+	 * @param {string} [configDir] - Directory to copy the lv_conf.h of the objects to for compiling user code.
 	 * @returns {Promise<string[]>} Array of paths to the compiled object files.
 	 * @throws {Error} If compilation fails or no object files are produced.
 	 */
-	public async buildLibrary(version: string): Promise<string[]> {
+	public async buildLibrary(
+		version: string,
+		projectLvConfPath?: string,
+		performanceMode: boolean = false,
+		configDir?: string
+	): Promise<string[]> {
 		const config = vscode.workspace.getConfiguration('lvglPreview');
 		const optimization = config.get<string>('emccOptimization', '-O2');
 		const displayWidth = config.get<number>('displayWidth', 480);
@@ -69,18 +84,45 @@ export class LibraryBuilder {
 		const majorVersion = parseInt(version.split('.')[0], 10);
 		const needsLvDrivers = majorVersion < 9;
 		const driversSuffix = needsLvDrivers ? '_with_lvdrivers' : '';
+		const { lvglColorDepth } = ConfigGenerator.getColorDepthConfig(
+			config.get<number>('colorDepth', 32),
+			majorVersion,
+			projectLvConfPath
+		);
+		const lvConfSuffix = projectLvConfPath ? `_conf${ConfigGenerator.hashLvConf(projectLvConfPath)}` : '';
+		const performanceSuffix = performanceMode ? '_perf' : '';
 
 		// Add a build strategy version to the cache key to invalidate old caches when compilation changes
 		// v2: SDL drivers compiled during final linking (not pre-compiled)
 		// v3: Added lvglMemorySize to the cache key
-		const buildVersion = 'v3';
-		const cacheKey = `${version}_${optimization}_${displayWidth}x${displayHeight}_mem${lvglMemorySize}${driversSuffix}_${buildVersion}`;
+		// v4: Collision-free object file names (same-named sources in different directories)
+		const buildVersion = 'v4';
+		const cacheKey = `${version}_${optimization}_${displayWidth}x${displayHeight}_mem${lvglMemorySize}_depth${lvglColorDepth}${lvConfSuffix}${performanceSuffix}${driversSuffix}_${buildVersion}`;
 		const objDir = path.join(this.cachePath, `obj_${cacheKey}`);
 		const markerFile = path.join(objDir, '.build_complete');
+		const configPath = path.join(this.cachePath, `lv_conf_${cacheKey}.h`);
+		const drvConfigPath = path.join(this.cachePath, `lv_drv_conf_${cacheKey}.h`);
 
 		// Check if object files are already built
 		if (fs.existsSync(markerFile)) {
 			this.outputChannel.appendLine(`Using cached LVGL objects: ${objDir}`);
+
+			// The user's code is compiled against the lv_conf.h in the LVGL directory, which may
+			// have been replaced by a build with other settings (e.g., another project's lv_conf.h)
+			if (fs.existsSync(configPath)) {
+				if (configDir) {
+					this.copyConfig(configPath, configDir);
+				} else {
+					fs.copyFileSync(configPath, path.join(this.versionManager.getIncludePath(version), 'lv_conf.h'));
+				}
+			}
+			if (needsLvDrivers && fs.existsSync(drvConfigPath)) {
+				fs.copyFileSync(
+					drvConfigPath,
+					path.join(this.versionManager.getLvDriversIncludePath(), 'lv_drv_conf.h')
+				);
+			}
+
 			const objectFiles = this.getObjectFiles(objDir);
 			this.outputChannel.appendLine(`Found ${objectFiles.length} cached object files`);
 			return objectFiles;
@@ -105,12 +147,25 @@ export class LibraryBuilder {
 
 				// Generate lv_conf.h
 				progress.report({ message: 'Generating configuration...' });
-				const configPath = path.join(this.cachePath, `lv_conf_${cacheKey}.h`);
-				ConfigGenerator.generateLvConf(configPath, displayWidth, displayHeight, lvglMemorySize);
+				if (projectLvConfPath) {
+					this.outputChannel.appendLine(`Using project lv_conf.h: ${projectLvConfPath}`);
+				}
+				ConfigGenerator.generateLvConf(
+					configPath,
+					displayWidth,
+					displayHeight,
+					lvglMemorySize,
+					lvglColorDepth,
+					projectLvConfPath,
+					performanceMode
+				);
 
 				// Copy lv_conf.h to LVGL directory
 				const lvglConfigPath = path.join(versionPath, 'lv_conf.h');
 				fs.copyFileSync(configPath, lvglConfigPath);
+				if (configDir) {
+					this.copyConfig(configPath, configDir);
+				}
 
 				// For LVGL v8, download and configure lv_drivers
 				let lvDriversPath: string | null = null;
@@ -120,8 +175,12 @@ export class LibraryBuilder {
 					lvDriversPath = await this.versionManager.ensureLvDrivers();
 
 					// Generate lv_drv_conf.h
-					const drvConfigPath = path.join(this.cachePath, `lv_drv_conf_${cacheKey}.h`);
-					LvDriversConfigGenerator.generateLvDrvConf(drvConfigPath, displayWidth, displayHeight);
+					LvDriversConfigGenerator.generateLvDrvConf(
+						drvConfigPath,
+						displayWidth,
+						displayHeight,
+						lvglColorDepth
+					);
 
 					// Copy lv_drv_conf.h directly to lv_drivers/master directory
 					// The compiler include path is set to lv_drivers/master, so the file needs to be there
@@ -157,17 +216,22 @@ export class LibraryBuilder {
 				progress.report({ message: 'Compiling LVGL...' });
 
 				const includePaths = [versionPath, path.join(versionPath, 'src')];
+				if (projectLvConfPath) {
+					// Headers the project's lv_conf.h includes (e.g., custom font declarations)
+					includePaths.push(path.dirname(projectLvConfPath));
+				}
 				if (lvDriversPath) {
 					includePaths.push(lvDriversPath);
 				}
 
 				// Compile LVGL source files
-				const objectFiles = await this.emccWrapper.compileToObjects(
+				const results = await this.emccWrapper.compileToObjects(
 					sourceFiles,
 					objDir,
 					includePaths,
 					optimization
 				);
+				const objectFiles = results.filter((r) => r.success).map((r) => r.objectFile);
 
 				// Note: lv_drivers SDL source files are NOT pre-compiled here
 				// They require SDL2 headers which are only available during final linking
@@ -192,6 +256,17 @@ export class LibraryBuilder {
 		);
 	}
 
+	/**
+	 * @brief Copies a generated lv_conf.h into a directory of its own.
+	 *
+	 * @param {string} configPath - The generated lv_conf.h.
+	 * @param {string} configDir - The directory, created if needed.
+	 */
+	private copyConfig(configPath: string, configDir: string): void {
+		fs.mkdirSync(configDir, { recursive: true });
+		fs.copyFileSync(configPath, path.join(configDir, 'lv_conf.h'));
+	}
+
 	/**
 	 * @brief Retrieves all object files from a directory.
 	 *
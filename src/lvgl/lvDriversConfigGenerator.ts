@@ -18,8 +18,14 @@ export class LvDriversConfigGenerator {
 	 * @param outputPath Path where the lv_drv_conf.h file should be written.
 	 * @param displayWidth Horizontal resolution for the SDL window.
 	 * @param displayHeight Vertical resolution for the SDL window.
+	 * @param colorDepth LV_COLOR_DEPTH the LVGL objects were built with (default: 32).
 	 */
-	public static generateLvDrvConf(outputPath: string, displayWidth: number, displayHeight: number): void {
+	public static generateLvDrvConf(
+		outputPath: string,
+		displayWidth: number,
+		displayHeight: number,
+		colorDepth: number = 32
+	): void {
 		const config = `
 /**
  * @file lv_drv_conf.h
@@ -31,6 +37,12 @@ export class LvDriversConfigGenerator {
 
 #include "lv_conf.h"
 
+/* The SDL driver converts every colour depth to ARGB8888 for display, but it must be built
+ * with the same LV_COLOR_DEPTH as the cached LVGL objects */
+#if LV_COLOR_DEPTH != ${colorDepth}
+#error "LV_COLOR_DEPTH does not match the LVGL Live Preview colour depth, run 'LVGL: Clear Cache'"
+#endif
+
 /*********************
  * DELAY INTERFACE
  *********************/
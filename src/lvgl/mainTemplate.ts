@@ -1,4 +1,23 @@
 import * as fs from 'fs';
+import { DisplayConfig, DisplayRotation, PreviewScreen } from '../types';
+
+/**
+ * Options for the generated main.c
+ */
+export interface MainFileOptions {
+	/**
+	 * Screen entry points offered in the preview's screen selector
+	 */
+	screens?: PreviewScreen[];
+	/**
+	 * Rotation of the main display in degrees
+	 */
+	rotation?: DisplayRotation;
+	/**
+	 * Additional displays, rendered by the webview into their own canvases
+	 */
+	displays?: DisplayConfig[];
+}
 
 /**
  * @class MainTemplate
@@ -7,9 +26,131 @@ import * as fs from 'fs';
  * @description
  * Generates a main.c file with dual implementations for LVGL v8 and v9.
  * The version detection happens at compile-time using preprocessor macros.
+ *
+ * The generated file also provides the state hooks used to keep UI state across hot reloads:
+ * weak defaults for `lvgl_live_preview_save_state()`/`lvgl_live_preview_restore_state()` that
+ * the user can override, and exported helpers the webview calls to move the state blob in
+ * and out of WASM memory.
+ *
+ * Screen entry points are compiled into a table that the webview's screen selector switches
+ * between through the exported `lvgl_live_preview_show_screen()`.
+ *
+ * The main display can be rotated with the LVGL rotation API. Additional displays have no SDL
+ * window; their flush callback hands the pixels to the webview, which draws them into one
+ * canvas per display and feeds pointer input back through `lvgl_live_preview_pointer_event()`.
+ * The webview timestamps recorded and replayed input with `lvgl_live_preview_tick()` and captures
+ * video at the period from `lvgl_live_preview_refresh_period()`.
+ *
+ * LVGL's time comes from a virtual clock that the webview can pause, step and scale through the
+ * exported `lvgl_live_preview_clock_*()` functions.
+ *
+ * The widget tree inspector reads the object hierarchy of every display's active screen as JSON
+ * from `lvgl_live_preview_widget_tree()`.
+ *
+ * With `lvglPreview.sourceMapping`, user files are compiled with the header from
+ * generateSourceMapHeader() forced in, which wraps the object creation functions so the creation
+ * site of every object is recorded. `lvgl_live_preview_source_at()` looks up the object under a
+ * display pixel for the webview's alt-click.
+ *
+ * The property inspector reads and sets common style properties of a live object through
+ * `lvgl_live_preview_widget_props()` and `lvgl_live_preview_widget_set_prop()`.
+ *
+ * `lvgl_live_preview_mem_monitor()` reports LVGL heap usage for the status bar, and in performance
+ * mode `lvgl_live_preview_perf_stats()` reports the frame timing of the main display. With
+ * `lvgl_live_preview_set_redraw_reporting()` every flushed area is passed to the webview.
+ *
+ * A headless variant (generateHeadlessMainFile()) renders into memory for visual regression tests.
  */
 export class MainTemplate {
-	public static generateMainFile(outputPath: string): void {
+	/**
+	 * Functions wrapped by the source mapping header: widget constructors of LVGL v8 and v9 and the
+	 * helpers that create objects inside a widget
+	 */
+	private static readonly SOURCE_MAP_CREATE_FUNCTIONS = [
+		'lv_obj_create',
+		'lv_animimg_create',
+		'lv_arc_create',
+		'lv_bar_create',
+		'lv_btn_create',
+		'lv_button_create',
+		'lv_btnmatrix_create',
+		'lv_buttonmatrix_create',
+		'lv_calendar_create',
+		'lv_canvas_create',
+		'lv_chart_create',
+		'lv_checkbox_create',
+		'lv_colorwheel_create',
+		'lv_dropdown_create',
+		'lv_img_create',
+		'lv_image_create',
+		'lv_imgbtn_create',
+		'lv_imagebutton_create',
+		'lv_keyboard_create',
+		'lv_label_create',
+		'lv_led_create',
+		'lv_line_create',
+		'lv_list_create',
+		'lv_list_add_btn',
+		'lv_list_add_button',
+		'lv_list_add_text',
+		'lv_menu_create',
+		'lv_menu_cont_create',
+		'lv_menu_page_create',
+		'lv_menu_section_create',
+		'lv_menu_separator_create',
+		'lv_meter_create',
+		'lv_msgbox_create',
+		'lv_roller_create',
+		'lv_scale_create',
+		'lv_slider_create',
+		'lv_spangroup_create',
+		'lv_spinbox_create',
+		'lv_spinner_create',
+		'lv_switch_create',
+		'lv_table_create',
+		'lv_tabview_create',
+		'lv_tabview_add_tab',
+		'lv_textarea_create',
+		'lv_tileview_create',
+		'lv_tileview_add_tile',
+		'lv_win_create',
+		'lv_win_add_btn',
+		'lv_win_add_button',
+		'lv_win_add_title',
+	];
+
+	/**
+	 * Sizes of the built-in Montserrat fonts (LV_FONT_MONTSERRAT_<size>) the property inspector offers
+	 */
+	private static readonly INSPECTOR_FONT_SIZES = [
+		8, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32, 34, 36, 38, 40, 42, 44, 46, 48,
+	];
+
+	/**
+	 * @brief Writes the generated main.c.
+	 *
+	 * @param outputPath Path of the main.c file to write
+	 * @param options Screens and display layout compiled into the file
+	 */
+	public static generateMainFile(outputPath: string, options: MainFileOptions = {}): void {
+		const screens = options.screens ?? [];
+		const rotation = options.rotation ?? 0;
+		const displays = options.displays ?? [];
+
+		/* v9 rotates through the display API, v8 lets LVGL rotate the rendered pixels for the SDL flush */
+		const v9Rotation =
+			rotation !== 0
+				? `
+    lv_display_set_rotation(disp, LV_DISPLAY_ROTATION_${rotation});
+    printf("Display rotated by ${rotation} degrees\\n");
+`
+				: '';
+		const v8Rotation =
+			rotation !== 0
+				? `    disp_drv.sw_rotate = 1;
+    disp_drv.rotated = LV_DISP_ROT_${rotation};
+`
+				: '';
 		const mainCode = `/**
  * @file main.c
  * @brief Main entry point for LVGL Live Preview with Emscripten
@@ -23,13 +164,111 @@ export class MainTemplate {
 #include <emscripten.h>
 #include <SDL2/SDL.h>
 #include <stdbool.h>
+#include <stddef.h>
+#include <stdint.h>
 #include <stdio.h>
+#include <stdlib.h>
+
+/* Objects created by this file are not user code: turn off the source mapping of the forced include */
+#ifdef LVGL_LIVE_PREVIEW_SOURCE_TRACK
+#undef LVGL_LIVE_PREVIEW_SOURCE_TRACK
+#define LVGL_LIVE_PREVIEW_SOURCE_TRACK(obj) (obj)
+#endif
 
 /* User function declaration - only visible when using LVGL Live Preview extension */
 #ifdef LVGL_LIVE_PREVIEW
 extern void lvgl_live_preview_init(void);
 #endif
 
+/*====================
+ * STATE PRESERVATION
+ * Keeps user-defined UI state across hot reloads
+ *====================*/
+
+/* Maximum size of the saved state, can be overridden with a define in the project config */
+#ifndef LVGL_LIVE_PREVIEW_STATE_MAX_SIZE
+    #define LVGL_LIVE_PREVIEW_STATE_MAX_SIZE 4096
+#endif
+
+static uint8_t state_buf[LVGL_LIVE_PREVIEW_STATE_MAX_SIZE];
+static size_t pending_state_len = 0;
+
+/**
+ * @brief Saves UI state before a hot reload (weak default, saves nothing)
+ *
+ * Define this function in your code to keep state such as the active tab or slider values.
+ *
+ * @param buf Buffer to write the state to
+ * @param len Size of the buffer in bytes
+ * @return Number of bytes written, 0 to save nothing
+ */
+__attribute__((weak)) size_t lvgl_live_preview_save_state(uint8_t *buf, size_t len) {
+    (void)buf;
+    (void)len;
+    return 0;
+}
+
+/**
+ * @brief Restores UI state after a hot reload (weak default, does nothing)
+ *
+ * Called after lvgl_live_preview_init() with the bytes saved by lvgl_live_preview_save_state().
+ *
+ * @param buf Saved state
+ * @param len Size of the saved state in bytes
+ */
+__attribute__((weak)) void lvgl_live_preview_restore_state(const uint8_t *buf, size_t len) {
+    (void)buf;
+    (void)len;
+}
+
+/**
+ * @brief Gets the buffer the state is exchanged through (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE uint8_t *lvgl_live_preview_state_buffer(void) {
+    return state_buf;
+}
+
+/**
+ * @brief Gets the size of the state buffer (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE size_t lvgl_live_preview_state_buffer_size(void) {
+    return sizeof(state_buf);
+}
+
+/**
+ * @brief Saves the current state into the state buffer (called from the webview before a reload)
+ *
+ * @return Number of bytes saved, or 0 if nothing was saved or the state did not fit
+ */
+EMSCRIPTEN_KEEPALIVE size_t lvgl_live_preview_snapshot_state(void) {
+    size_t len = lvgl_live_preview_save_state(state_buf, sizeof(state_buf));
+    if (len > sizeof(state_buf)) {
+        printf("Saved state exceeds LVGL_LIVE_PREVIEW_STATE_MAX_SIZE, discarding it\\n");
+        return 0;
+    }
+    return len;
+}
+
+/**
+ * @brief Marks the state buffer as holding a state to restore (called from the webview before main)
+ *
+ * @param len Number of bytes the webview copied into the state buffer
+ */
+EMSCRIPTEN_KEEPALIVE void lvgl_live_preview_set_pending_state(size_t len) {
+    pending_state_len = len <= sizeof(state_buf) ? len : 0;
+}
+
+/**
+ * @brief Hands the state of the previous module to the user's restore hook
+ */
+static void restore_pending_state(void) {
+    if (pending_state_len > 0) {
+        printf("Restoring %u bytes of saved state\\n", (unsigned)pending_state_len);
+        lvgl_live_preview_restore_state(state_buf, pending_state_len);
+        pending_state_len = 0;
+    }
+}
+
 /* LVGL version detection - check for v9+ first, then fall back to v8 */
 #if defined(LVGL_VERSION_MAJOR) && LVGL_VERSION_MAJOR >= 9
     #define LVGL_V9_OR_LATER 1
@@ -48,6 +287,109 @@ extern void lvgl_live_preview_init(void);
     #define DISP_VER_RES MY_DISP_VER_RES
 #endif
 
+${this.generateScreenSection(screens)}
+
+${this.generateDisplaySection(displays)}
+
+/*====================
+ * RECORDING
+ * Timing of recorded input and video captures
+ *====================*/
+
+/**
+ * @brief Gets the current LVGL tick in milliseconds (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE uint32_t lvgl_live_preview_tick(void) {
+    return lv_tick_get();
+}
+
+/**
+ * @brief Gets the display refresh period in milliseconds (called from the webview's video capture)
+ */
+EMSCRIPTEN_KEEPALIVE uint32_t lvgl_live_preview_refresh_period(void) {
+#if LVGL_V9_OR_LATER
+    return LV_DEF_REFR_PERIOD;
+#else
+    return LV_DISP_DEF_REFR_PERIOD;
+#endif
+}
+
+/*====================
+ * VIRTUAL CLOCK
+ * LVGL time, which the webview can pause, step and scale
+ *====================*/
+
+/* Largest time step lvgl_live_preview_clock_step() runs the timers for, like the main loop's delay */
+#define CLOCK_STEP_SLICE_MS 5
+
+static double clock_ms = 0.0;
+static double clock_scale = 1.0;
+static bool clock_paused = false;
+static uint32_t clock_last_real = 0;
+
+/**
+ * @brief Gets the virtual time in milliseconds
+ *
+ * Advances the virtual time by the real time since the last call, multiplied by the time scale,
+ * unless the clock is paused.
+ */
+static uint32_t preview_clock_get(void) {
+    uint32_t real = SDL_GetTicks();
+    if (!clock_paused) {
+        clock_ms += (double)(uint32_t)(real - clock_last_real) * clock_scale;
+    }
+    clock_last_real = real;
+    return (uint32_t)clock_ms;
+}
+
+/**
+ * @brief Pauses or resumes the virtual clock (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE void lvgl_live_preview_clock_set_paused(bool paused) {
+    preview_clock_get();
+    clock_paused = paused;
+}
+
+/**
+ * @brief Sets how fast the virtual clock runs compared to real time (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE void lvgl_live_preview_clock_set_scale(double scale) {
+    preview_clock_get();
+    clock_scale = scale;
+}
+
+/**
+ * @brief Advances the virtual clock and runs the LVGL timers (called from the webview)
+ *
+ * The time is advanced in small slices with lv_timer_handler() after each, so periodic timers
+ * fire as often as they would have in real time.
+ *
+ * @param ms Milliseconds to advance
+ * @return The virtual time after the step
+ */
+EMSCRIPTEN_KEEPALIVE uint32_t lvgl_live_preview_clock_step(uint32_t ms) {
+    preview_clock_get();
+    while (ms > 0) {
+        uint32_t slice = ms < CLOCK_STEP_SLICE_MS ? ms : CLOCK_STEP_SLICE_MS;
+        clock_ms += slice;
+        ms -= slice;
+        lv_timer_handler();
+    }
+    return (uint32_t)clock_ms;
+}
+
+${this.generateWidgetTreeSection()}
+
+${this.generateSourceMapSection()}
+
+${this.generatePropertyInspectorSection()}
+
+${this.generateMemoryMonitorSection()}
+
+${this.generatePerformanceMonitorSection()}
+
+${this.generateRedrawAreaSection()}
+
 /*====================
  * LVGL V9 IMPLEMENTATION
  * Uses built-in SDL driver
@@ -90,6 +432,18 @@ int main(int argc, char *argv[]) {
     }
     printf("SDL window created (LVGL v9+ built-in driver)\\n");
 
+    /* The SDL driver sets SDL_GetTicks() as tick source, replace it with the virtual clock */
+#if LVGL_VERSION_MAJOR > 9 || LVGL_VERSION_MINOR >= 1
+    lv_tick_set_cb(preview_clock_get);
+#else
+    printf("The virtual clock needs LVGL 9.1 or later, LVGL runs in real time\\n");
+#endif
+${v9Rotation}
+    preview_displays[0] = disp;
+    create_extra_displays();
+    performance_monitor_attach();
+    redraw_areas_attach();
+
     /* Create input devices */
     lv_indev_t *mouse = lv_sdl_mouse_create();
     if (mouse) {
@@ -109,6 +463,9 @@ int main(int argc, char *argv[]) {
     printf("User init complete\\n");
 #endif
 
+    show_initial_screen();
+    restore_pending_state();
+
     /* Start Emscripten main loop */
     printf("Starting main loop...\\n");
     emscripten_set_main_loop(main_loop, 0, 1);
@@ -130,13 +487,13 @@ static lv_disp_t *disp = NULL;
 /**
  * @brief Custom tick implementation for LVGL v8
  *
- * Provides system tick in milliseconds using SDL's timer.
+ * Provides the virtual clock's time in milliseconds.
  * Called by LVGL when LV_TICK_CUSTOM = 1.
  *
- * @return Current time in milliseconds since SDL initialization.
+ * @return Current virtual time in milliseconds.
  */
 uint32_t lv_tick_get(void) {
-    return SDL_GetTicks();
+    return preview_clock_get();
 }
 
 /**
@@ -149,7 +506,7 @@ uint32_t lv_tick_get(void) {
  * @return Elapsed milliseconds since prev_tick
  */
 uint32_t lv_tick_elaps(uint32_t prev_tick) {
-    uint32_t act_time = SDL_GetTicks();
+    uint32_t act_time = preview_clock_get();
 
     /* Handle 32-bit wraparound */
     if(act_time >= prev_tick) {
@@ -204,10 +561,15 @@ int main(int argc, char *argv[]) {
     disp_drv.flush_cb = sdl_display_flush;
     disp_drv.hor_res = DISP_HOR_RES;
     disp_drv.ver_res = DISP_VER_RES;
-    disp = lv_disp_drv_register(&disp_drv);
+${v8Rotation}    disp = lv_disp_drv_register(&disp_drv);
 
     printf("Display driver registered\\n");
 
+    preview_displays[0] = disp;
+    create_extra_displays();
+    performance_monitor_attach();
+    redraw_areas_attach();
+
     /* Setup mouse input device */
     static lv_indev_drv_t indev_drv_mouse;
     lv_indev_drv_init(&indev_drv_mouse);
@@ -242,6 +604,9 @@ int main(int argc, char *argv[]) {
     printf("User init complete\\n");
 #endif
 
+    show_initial_screen();
+    restore_pending_state();
+
     /* Start Emscripten main loop */
     printf("Starting main loop...\\n");
     emscripten_set_main_loop(main_loop, 0, 1);
@@ -254,4 +619,1469 @@ int main(int argc, char *argv[]) {
 
 		fs.writeFileSync(outputPath, mainCode);
 	}
+
+	/**
+	 * @brief Writes the header forced into user files when source mapping is enabled.
+	 *
+	 * Each object creation function becomes a macro that passes the created object, `__FILE__`
+	 * and `__LINE__` to `lvgl_live_preview_source_track()` in main.c. The header includes lvgl.h
+	 * first so the declarations are not affected; names that LVGL already defines as macros (the
+	 * v8 compatibility names of v9) are left alone and resolve to the wrapped function.
+	 *
+	 * @param outputPath Path of the header file to write
+	 */
+	public static generateSourceMapHeader(outputPath: string): void {
+		const macros = this.SOURCE_MAP_CREATE_FUNCTIONS.map(
+			(name) => `#ifndef ${name}
+#define ${name}(...) LVGL_LIVE_PREVIEW_SOURCE_TRACK(${name}(__VA_ARGS__))
+#endif`
+		).join('\n');
+
+		const header = `/**
+ * @file lvgl_live_preview_source_map.h
+ * @brief Records where objects are created (lvglPreview.sourceMapping), generated by LVGL Live Preview
+ */
+
+#ifndef LVGL_LIVE_PREVIEW_SOURCE_MAP_H
+#define LVGL_LIVE_PREVIEW_SOURCE_MAP_H
+
+#include "lvgl.h"
+
+lv_obj_t *lvgl_live_preview_source_track(lv_obj_t *obj, const char *file, int line);
+
+#define LVGL_LIVE_PREVIEW_SOURCE_TRACK(obj) lvgl_live_preview_source_track((obj), __FILE__, __LINE__)
+
+${macros}
+
+#endif /* LVGL_LIVE_PREVIEW_SOURCE_MAP_H */
+`;
+		fs.writeFileSync(outputPath, header);
+	}
+
+	/**
+	 * @brief Writes the main.c of the headless build used by visual regression tests.
+	 *
+	 * The headless main has no SDL window and no input devices. Its display renders into an
+	 * RGBA framebuffer, and LVGL time only advances when the test runner renders a screen, so
+	 * the same code produces the same image on every run.
+	 *
+	 * @param outputPath Path of the main.c file to write
+	 * @param screens Screen entry points the test runner renders
+	 */
+	public static generateHeadlessMainFile(outputPath: string, screens: PreviewScreen[] = []): void {
+		const mainCode = `/**
+ * @file main_headless.c
+ * @brief Headless entry point for LVGL Live Preview visual regression tests
+ *
+ * Renders into an in-memory RGBA framebuffer instead of an SDL window. The test runner
+ * calls lvgl_live_preview_headless_render() for each entry point and reads the framebuffer.
+ */
+
+#include "lvgl.h"
+#include <emscripten.h>
+#include <stdbool.h>
+#include <stddef.h>
+#include <stdint.h>
+#include <stdio.h>
+
+/* User function declaration - only visible when using LVGL Live Preview extension */
+#ifdef LVGL_LIVE_PREVIEW
+extern void lvgl_live_preview_init(void);
+#endif
+
+/* LVGL version detection - check for v9+ first, then fall back to v8 */
+#if defined(LVGL_VERSION_MAJOR) && LVGL_VERSION_MAJOR >= 9
+    #define LVGL_V9_OR_LATER 1
+#elif defined(LV_VERSION_MAJOR) && LV_VERSION_MAJOR >= 9
+    #define LVGL_V9_OR_LATER 1
+#else
+    #define LVGL_V9_OR_LATER 0
+#endif
+
+/* Get display dimensions from lv_conf.h */
+#if LVGL_V9_OR_LATER
+    #define DISP_HOR_RES SDL_HOR_RES
+    #define DISP_VER_RES SDL_VER_RES
+#else
+    #define DISP_HOR_RES MY_DISP_HOR_RES
+    #define DISP_VER_RES MY_DISP_VER_RES
+#endif
+
+${this.generateScreenSection(screens)}
+
+/*====================
+ * HEADLESS DISPLAY
+ * Renders into memory with a virtual clock
+ *====================*/
+
+/* Time each timer handler step advances, matching the SDL main loop delay */
+#define HEADLESS_TICK_MS 5
+#define HEADLESS_BUF_LINES 20
+
+static uint8_t framebuffer[DISP_HOR_RES * DISP_VER_RES * 4];
+
+/**
+ * @brief Writes one pixel into the RGBA framebuffer
+ */
+static void store_pixel(int32_t x, int32_t y, uint8_t r, uint8_t g, uint8_t b) {
+    if (x < 0 || y < 0 || x >= DISP_HOR_RES || y >= DISP_VER_RES) {
+        return;
+    }
+    uint8_t *pixel = &framebuffer[(y * DISP_HOR_RES + x) * 4];
+    pixel[0] = r;
+    pixel[1] = g;
+    pixel[2] = b;
+    pixel[3] = 255;
+}
+
+#if LVGL_V9_OR_LATER
+
+static lv_display_t *disp = NULL;
+
+static void headless_flush(lv_display_t *display, const lv_area_t *area, uint8_t *px_map) {
+    int32_t width = lv_area_get_width(area);
+    for (int32_t y = area->y1; y <= area->y2; y++) {
+        for (int32_t x = area->x1; x <= area->x2; x++) {
+            int32_t i = (y - area->y1) * width + (x - area->x1);
+#if LV_COLOR_DEPTH == 16
+            uint16_t c = ((const uint16_t *)px_map)[i];
+            store_pixel(x, y, ((c >> 11) & 0x1f) * 255 / 31, ((c >> 5) & 0x3f) * 255 / 63, (c & 0x1f) * 255 / 31);
+#elif LV_COLOR_DEPTH == 24
+            const uint8_t *px = &px_map[i * 3];
+            store_pixel(x, y, px[2], px[1], px[0]);
+#else
+            const uint8_t *px = &px_map[i * 4];
+            store_pixel(x, y, px[2], px[1], px[0]);
+#endif
+        }
+    }
+    lv_display_flush_ready(display);
+}
+
+static void advance_time(uint32_t ms) {
+    lv_tick_inc(ms);
+}
+
+static void create_display(void) {
+    static uint8_t buf[DISP_HOR_RES * HEADLESS_BUF_LINES * 4];
+    disp = lv_display_create(DISP_HOR_RES, DISP_VER_RES);
+    lv_display_set_buffers(disp, buf, NULL, sizeof(buf), LV_DISPLAY_RENDER_MODE_PARTIAL);
+    lv_display_set_flush_cb(disp, headless_flush);
+}
+
+/**
+ * @brief Gets a display by index; the headless build only has the main display
+ */
+lv_display_t *lvgl_live_preview_get_display(int index) {
+    return index == 0 ? disp : NULL;
+}
+
+#else
+
+static lv_disp_t *disp = NULL;
+static uint32_t headless_time = 0;
+
+/**
+ * @brief Virtual tick for LVGL v8 (LV_TICK_CUSTOM = 1), advanced by the test runner only
+ */
+uint32_t lv_tick_get(void) {
+    return headless_time;
+}
+
+uint32_t lv_tick_elaps(uint32_t prev_tick) {
+    return headless_time - prev_tick;
+}
+
+static void headless_flush(lv_disp_drv_t *drv, const lv_area_t *area, lv_color_t *color_p) {
+    for (int32_t y = area->y1; y <= area->y2; y++) {
+        for (int32_t x = area->x1; x <= area->x2; x++) {
+            uint32_t c = lv_color_to32(*color_p++);
+            store_pixel(x, y, (c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff);
+        }
+    }
+    lv_disp_flush_ready(drv);
+}
+
+static void advance_time(uint32_t ms) {
+    headless_time += ms;
+}
+
+static void create_display(void) {
+    static lv_disp_draw_buf_t draw_buf;
+    static lv_color_t buf[DISP_HOR_RES * HEADLESS_BUF_LINES];
+    lv_disp_draw_buf_init(&draw_buf, buf, NULL, DISP_HOR_RES * HEADLESS_BUF_LINES);
+
+    static lv_disp_drv_t disp_drv;
+    lv_disp_drv_init(&disp_drv);
+    disp_drv.draw_buf = &draw_buf;
+    disp_drv.flush_cb = headless_flush;
+    disp_drv.hor_res = DISP_HOR_RES;
+    disp_drv.ver_res = DISP_VER_RES;
+    disp = lv_disp_drv_register(&disp_drv);
+}
+
+/**
+ * @brief Gets a display by index; the headless build only has the main display
+ */
+lv_disp_t *lvgl_live_preview_get_display(int index) {
+    return index == 0 ? disp : NULL;
+}
+
+#endif /* LVGL_V9_OR_LATER */
+
+/**
+ * @brief Gets the framebuffer width in pixels (called from the test runner)
+ */
+EMSCRIPTEN_KEEPALIVE int lvgl_live_preview_headless_width(void) {
+    return DISP_HOR_RES;
+}
+
+/**
+ * @brief Gets the framebuffer height in pixels (called from the test runner)
+ */
+EMSCRIPTEN_KEEPALIVE int lvgl_live_preview_headless_height(void) {
+    return DISP_VER_RES;
+}
+
+/**
+ * @brief Shows an entry point on a fresh screen, runs LVGL for a number of ticks and renders it
+ *
+ * @param index Index in the screen table, -1 for lvgl_live_preview_init()
+ * @param ticks Number of timer handler steps of HEADLESS_TICK_MS to run before rendering
+ * @return The RGBA framebuffer, or NULL if the index is out of range
+ */
+EMSCRIPTEN_KEEPALIVE uint8_t *lvgl_live_preview_headless_render(int index, int ticks) {
+    if (!lvgl_live_preview_show_screen(index)) {
+        return NULL;
+    }
+
+    for (int i = 0; i < ticks; i++) {
+        advance_time(HEADLESS_TICK_MS);
+        lv_timer_handler();
+    }
+
+    /* Redraw the whole screen so the framebuffer does not keep pixels of the previous entry point */
+#if LVGL_V9_OR_LATER
+    lv_obj_invalidate(lv_screen_active());
+#else
+    lv_obj_invalidate(lv_scr_act());
+#endif
+    lv_refr_now(NULL);
+
+    return framebuffer;
+}
+
+int main(int argc, char *argv[]) {
+    (void)argc;
+    (void)argv;
+
+    lv_init();
+    create_display();
+    printf("Headless LVGL ready (%dx%d)\\n", DISP_HOR_RES, DISP_VER_RES);
+
+    /* The runtime stays alive after main() returns; the test runner renders each entry point */
+    return 0;
+}
+`;
+
+		fs.writeFileSync(outputPath, mainCode);
+	}
+
+	/**
+	 * @brief Generates the screen table and the functions that switch between screens.
+	 *
+	 * Index -1 stands for lvgl_live_preview_init(). When screens are configured, the init
+	 * function becomes optional: a weak default is generated, and the first screen is shown
+	 * instead if the user did not define one.
+	 *
+	 * @param screens Screen entry points in dropdown order
+	 * @returns C code for the screen section of main.c
+	 */
+	private static generateScreenSection(screens: PreviewScreen[]): string {
+		const declarations = screens.map((screen) => `extern void ${screen.functionName}(void);`).join('\n');
+		const table = screens.length > 0 ? screens.map((screen) => `    ${screen.functionName},`).join('\n') : '    NULL,';
+		const weakInit =
+			screens.length > 0
+				? `
+/* lvgl_live_preview_init() is optional when screens are available */
+__attribute__((weak)) void lvgl_live_preview_init(void) {
+    user_init_missing = true;
+}
+`
+				: '';
+
+		return `/*====================
+ * SCREEN SELECTION
+ * Entry points the preview toolbar can switch between
+ *====================*/
+
+#define SCREEN_COUNT ${screens.length}
+
+${declarations}
+
+typedef void (*screen_fn_t)(void);
+
+static const screen_fn_t screens[] = {
+${table}
+};
+
+static int initial_screen = -1;
+static int active_screen = -1;
+static bool user_init_missing = false;
+${weakInit}
+/**
+ * @brief Gets the number of screens in the screen table (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE int lvgl_live_preview_screen_count(void) {
+    return SCREEN_COUNT;
+}
+
+/**
+ * @brief Gets the index of the screen currently shown, -1 for lvgl_live_preview_init() (called from the webview)
+ */
+EMSCRIPTEN_KEEPALIVE int lvgl_live_preview_active_screen(void) {
+    return active_screen;
+}
+
+/**
+ * @brief Selects the screen main() shows after initialization (called from the webview before main)
+ *
+ * @param index Index in the screen table, -1 for lvgl_live_preview_init()
+ */
+EMSCRIPTEN_KEEPALIVE void lvgl_live_preview_set_initial_screen(int index) {
+    initial_screen = index;
+}
+
+/**
+ * @brief Replaces the active screen with a fresh one built by the selected entry point
+ *
+ * @param index Index in the screen table, -1 for lvgl_live_preview_init()
+ * @return true if the screen was shown, false if the index is out of range
+ */
+EMSCRIPTEN_KEEPALIVE bool lvgl_live_preview_show_screen(int index) {
+    if (index < -1 || index >= SCREEN_COUNT) {
+        return false;
+    }
+
+#if LVGL_V9_OR_LATER
+    lv_obj_t *old_screen = lv_screen_active();
+    lv_screen_load(lv_obj_create(NULL));
+    lv_obj_delete(old_screen);
+#else
+    lv_obj_t *old_screen = lv_scr_act();
+    lv_scr_load(lv_obj_create(NULL));
+    lv_obj_del(old_screen);
+#endif
+
+    if (index < 0) {
+        lvgl_live_preview_init();
+    } else {
+        screens[index]();
+    }
+
+    active_screen = index;
+    return true;
+}
+
+/**
+ * @brief Shows the screen selected in the toolbar after lvgl_live_preview_init() has run
+ */
+static void show_initial_screen(void) {
+    if (initial_screen < 0 && user_init_missing) {
+        initial_screen = 0;
+    }
+
+    if (initial_screen >= 0 && !lvgl_live_preview_show_screen(initial_screen)) {
+        printf("Screen %d not found, keeping lvgl_live_preview_init()\\n", initial_screen);
+    }
+}`;
+	}
+
+	/**
+	 * @brief Generates the exported helpers of the widget tree inspector.
+	 *
+	 * The tree is serialised as JSON: one entry per display with the display index and its active
+	 * screen, each object with its id (the object's address), class, coordinates, flags, state and
+	 * children. Class names come from a table of the built-in widget classes; objects of other
+	 * classes are reported as `unknown`.
+	 *
+	 * @returns The C code of the widget tree section
+	 */
+	private static generateWidgetTreeSection(): string {
+		return `/*====================
+ * WIDGET TREE
+ * Object hierarchy for the widget tree inspector
+ *====================*/
+
+#include <stdarg.h>
+#include <stdlib.h>
+
+typedef struct {
+    uint32_t value;
+    const char *name;
+} widget_bit_name_t;
+
+typedef struct {
+    const lv_obj_class_t *class_p;
+    const char *name;
+} widget_class_name_t;
+
+#define WIDGET_CLASS(name) { &lv_##name##_class, #name }
+
+static const widget_class_name_t widget_class_names[] = {
+    WIDGET_CLASS(obj),
+#if LVGL_V9_OR_LATER
+#if LV_USE_BUTTON
+    WIDGET_CLASS(button),
+#endif
+#if LV_USE_BUTTONMATRIX
+    WIDGET_CLASS(buttonmatrix),
+#endif
+#if LV_USE_IMAGE
+    WIDGET_CLASS(image),
+#endif
+#if LV_USE_IMAGEBUTTON
+    WIDGET_CLASS(imagebutton),
+#endif
+#if LV_USE_SCALE
+    WIDGET_CLASS(scale),
+#endif
+#else
+#if LV_USE_BTN
+    WIDGET_CLASS(btn),
+#endif
+#if LV_USE_BTNMATRIX
+    WIDGET_CLASS(btnmatrix),
+#endif
+#if LV_USE_IMG
+    WIDGET_CLASS(img),
+#endif
+#if LV_USE_IMGBTN
+    WIDGET_CLASS(imgbtn),
+#endif
+#if LV_USE_METER
+    WIDGET_CLASS(meter),
+#endif
+#endif
+#if LV_USE_LABEL
+    WIDGET_CLASS(label),
+#endif
+#if LV_USE_LINE
+    WIDGET_CLASS(line),
+#endif
+#if LV_USE_ARC
+    WIDGET_CLASS(arc),
+#endif
+#if LV_USE_BAR
+    WIDGET_CLASS(bar),
+#endif
+#if LV_USE_SLIDER
+    WIDGET_CLASS(slider),
+#endif
+#if LV_USE_SWITCH
+    WIDGET_CLASS(switch),
+#endif
+#if LV_USE_CHECKBOX
+    WIDGET_CLASS(checkbox),
+#endif
+#if LV_USE_DROPDOWN
+    WIDGET_CLASS(dropdown),
+#endif
+#if LV_USE_ROLLER
+    WIDGET_CLASS(roller),
+#endif
+#if LV_USE_TEXTAREA
+    WIDGET_CLASS(textarea),
+#endif
+#if LV_USE_TABLE
+    WIDGET_CLASS(table),
+#endif
+#if LV_USE_CANVAS
+    WIDGET_CLASS(canvas),
+#endif
+#if LV_USE_CHART
+    WIDGET_CLASS(chart),
+#endif
+#if LV_USE_KEYBOARD
+    WIDGET_CLASS(keyboard),
+#endif
+#if LV_USE_LIST
+    WIDGET_CLASS(list),
+#endif
+#if LV_USE_MSGBOX
+    WIDGET_CLASS(msgbox),
+#endif
+#if LV_USE_SPINBOX
+    WIDGET_CLASS(spinbox),
+#endif
+#if LV_USE_SPINNER
+    WIDGET_CLASS(spinner),
+#endif
+#if LV_USE_TABVIEW
+    WIDGET_CLASS(tabview),
+#endif
+#if LV_USE_TILEVIEW
+    WIDGET_CLASS(tileview),
+#endif
+#if LV_USE_WIN
+    WIDGET_CLASS(win),
+#endif
+#if LV_USE_LED
+    WIDGET_CLASS(led),
+#endif
+#if LV_USE_CALENDAR
+    WIDGET_CLASS(calendar),
+#endif
+#if LV_USE_MENU
+    WIDGET_CLASS(menu),
+#endif
+#if LV_USE_SPAN
+    WIDGET_CLASS(spangroup),
+#endif
+};
+
+static const widget_bit_name_t widget_flag_names[] = {
+    { LV_OBJ_FLAG_HIDDEN, "hidden" },
+    { LV_OBJ_FLAG_CLICKABLE, "clickable" },
+    { LV_OBJ_FLAG_CLICK_FOCUSABLE, "click_focusable" },
+    { LV_OBJ_FLAG_CHECKABLE, "checkable" },
+    { LV_OBJ_FLAG_SCROLLABLE, "scrollable" },
+    { LV_OBJ_FLAG_SCROLL_ELASTIC, "scroll_elastic" },
+    { LV_OBJ_FLAG_SCROLL_MOMENTUM, "scroll_momentum" },
+    { LV_OBJ_FLAG_SCROLL_ONE, "scroll_one" },
+    { LV_OBJ_FLAG_SCROLL_ON_FOCUS, "scroll_on_focus" },
+    { LV_OBJ_FLAG_SNAPPABLE, "snappable" },
+    { LV_OBJ_FLAG_PRESS_LOCK, "press_lock" },
+    { LV_OBJ_FLAG_EVENT_BUBBLE, "event_bubble" },
+    { LV_OBJ_FLAG_GESTURE_BUBBLE, "gesture_bubble" },
+    { LV_OBJ_FLAG_ADV_HITTEST, "adv_hittest" },
+    { LV_OBJ_FLAG_IGNORE_LAYOUT, "ignore_layout" },
+    { LV_OBJ_FLAG_FLOATING, "floating" },
+};
+
+static const widget_bit_name_t widget_state_names[] = {
+    { LV_STATE_CHECKED, "checked" },
+    { LV_STATE_FOCUSED, "focused" },
+    { LV_STATE_FOCUS_KEY, "focus_key" },
+    { LV_STATE_EDITED, "edited" },
+    { LV_STATE_HOVERED, "hovered" },
+    { LV_STATE_PRESSED, "pressed" },
+    { LV_STATE_SCROLLED, "scrolled" },
+    { LV_STATE_DISABLED, "disabled" },
+};
+
+static char *widget_tree_buf = NULL;
+static size_t widget_tree_len = 0;
+static size_t widget_tree_cap = 0;
+
+/* Appends formatted text to the JSON buffer, growing it as needed */
+static void widget_tree_append(const char *fmt, ...) {
+    va_list args;
+    va_start(args, fmt);
+    int needed = vsnprintf(NULL, 0, fmt, args);
+    va_end(args);
+    if (needed < 0) {
+        return;
+    }
+
+    if (widget_tree_len + (size_t)needed + 1 > widget_tree_cap) {
+        size_t cap = widget_tree_cap > 0 ? widget_tree_cap : 4096;
+        while (cap < widget_tree_len + (size_t)needed + 1) {
+            cap *= 2;
+        }
+        char *buf = realloc(widget_tree_buf, cap);
+        if (!buf) {
+            return;
+        }
+        widget_tree_buf = buf;
+        widget_tree_cap = cap;
+    }
+
+    va_start(args, fmt);
+    vsnprintf(widget_tree_buf + widget_tree_len, (size_t)needed + 1, fmt, args);
+    va_end(args);
+    widget_tree_len += (size_t)needed;
+}
+
+static const char *widget_class_name(const lv_obj_t *obj) {
+    const lv_obj_class_t *class_p = lv_obj_get_class(obj);
+    for (size_t i = 0; i < sizeof(widget_class_names) / sizeof(widget_class_names[0]); i++) {
+        if (widget_class_names[i].class_p == class_p) {
+            return widget_class_names[i].name;
+        }
+    }
+    return "unknown";
+}
+
+static lv_obj_t *widget_display_screen(int index) {
+    if (!preview_displays[index]) {
+        return NULL;
+    }
+#if LVGL_V9_OR_LATER
+    return lv_display_get_screen_active(preview_displays[index]);
+#else
+    return lv_disp_get_scr_act(preview_displays[index]);
+#endif
+}
+
+static void widget_tree_add_object(lv_obj_t *obj) {
+    lv_area_t area;
+    lv_obj_get_coords(obj, &area);
+    uint32_t child_count = lv_obj_get_child_cnt(obj);
+
+    widget_tree_append("{\\"id\\":%lu,\\"class\\":\\"%s\\",\\"x\\":%d,\\"y\\":%d,\\"w\\":%d,\\"h\\":%d,\\"flags\\":[",
+        (unsigned long)(uintptr_t)obj, widget_class_name(obj), (int)area.x1, (int)area.y1,
+        (int)(area.x2 - area.x1 + 1), (int)(area.y2 - area.y1 + 1));
+
+    const char *separator = "";
+    for (size_t i = 0; i < sizeof(widget_flag_names) / sizeof(widget_flag_names[0]); i++) {
+        if (lv_obj_has_flag(obj, widget_flag_names[i].value)) {
+            widget_tree_append("%s\\"%s\\"", separator, widget_flag_names[i].name);
+            separator = ",";
+        }
+    }
+
+    widget_tree_append("],\\"state\\":[");
+    uint32_t state = lv_obj_get_state(obj);
+    separator = "";
+    for (size_t i = 0; i < sizeof(widget_state_names) / sizeof(widget_state_names[0]); i++) {
+        if (state & widget_state_names[i].value) {
+            widget_tree_append("%s\\"%s\\"", separator, widget_state_names[i].name);
+            separator = ",";
+        }
+    }
+
+    widget_tree_append("],\\"childCount\\":%lu,\\"children\\":[", (unsigned long)child_count);
+    for (uint32_t i = 0; i < child_count; i++) {
+        if (i > 0) {
+            widget_tree_append(",");
+        }
+        widget_tree_add_object(lv_obj_get_child(obj, (int32_t)i));
+    }
+    widget_tree_append("]}");
+}
+
+static bool widget_tree_contains(lv_obj_t *obj, uintptr_t id) {
+    if ((uintptr_t)obj == id) {
+        return true;
+    }
+    uint32_t child_count = lv_obj_get_child_cnt(obj);
+    for (uint32_t i = 0; i < child_count; i++) {
+        if (widget_tree_contains(lv_obj_get_child(obj, (int32_t)i), id)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * @brief Serialises the object tree of every display's active screen as JSON (called from the webview)
+ *
+ * @return JSON array of { display, root } entries, valid until the next call
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_widget_tree(void) {
+    widget_tree_len = 0;
+    widget_tree_append("[");
+    const char *separator = "";
+    for (int i = 0; i <= EXTRA_DISPLAY_COUNT; i++) {
+        lv_obj_t *screen = widget_display_screen(i);
+        if (screen) {
+            widget_tree_append("%s{\\"display\\":%d,\\"root\\":", separator, i);
+            widget_tree_add_object(screen);
+            widget_tree_append("}");
+            separator = ",";
+        }
+    }
+    widget_tree_append("]");
+    return widget_tree_buf ? widget_tree_buf : "[]";
+}
+
+/**
+ * @brief Gets the current coordinates of an object of the widget tree (called from the webview)
+ *
+ * The id is only used as a pointer once it is found in a screen, so deleted objects are safe.
+ *
+ * @param id Object id from lvgl_live_preview_widget_tree()
+ * @return JSON { display, x, y, w, h }, or NULL if the object is not on an active screen
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_widget_area(uint32_t id) {
+    static char area_json[128];
+    for (int i = 0; i <= EXTRA_DISPLAY_COUNT; i++) {
+        lv_obj_t *screen = widget_display_screen(i);
+        if (screen && widget_tree_contains(screen, (uintptr_t)id)) {
+            lv_area_t area;
+            lv_obj_get_coords((lv_obj_t *)(uintptr_t)id, &area);
+            snprintf(area_json, sizeof(area_json), "{\\"display\\":%d,\\"x\\":%d,\\"y\\":%d,\\"w\\":%d,\\"h\\":%d}", i,
+                (int)area.x1, (int)area.y1, (int)(area.x2 - area.x1 + 1), (int)(area.y2 - area.y1 + 1));
+            return area_json;
+        }
+    }
+    return NULL;
+}`;
+	}
+
+	/**
+	 * @brief Generates the creation site table of the source mapping and its exported lookup.
+	 *
+	 * Objects are added by `lvgl_live_preview_source_track()`, called from the macros of the
+	 * source mapping header, and removed again when LVGL deletes them. The table stays empty when
+	 * source mapping is disabled, so the lookup finds nothing.
+	 *
+	 * @returns The C code of the source mapping section
+	 */
+	private static generateSourceMapSection(): string {
+		return `/*====================
+ * SOURCE MAPPING
+ * Creation sites of objects for the preview's alt-click
+ *====================*/
+
+typedef struct {
+    lv_obj_t *obj;
+    const char *file;
+    int line;
+} source_map_entry_t;
+
+static source_map_entry_t *source_map = NULL;
+static uint32_t source_map_count = 0;
+static uint32_t source_map_cap = 0;
+
+static source_map_entry_t *source_map_find(const lv_obj_t *obj) {
+    for (uint32_t i = 0; i < source_map_count; i++) {
+        if (source_map[i].obj == obj) {
+            return &source_map[i];
+        }
+    }
+    return NULL;
+}
+
+static void source_map_delete_cb(lv_event_t *e) {
+    source_map_entry_t *entry = source_map_find(lv_event_get_target(e));
+    if (entry) {
+        *entry = source_map[--source_map_count];
+    }
+}
+
+/**
+ * @brief Records where an object was created (called by the source mapping macros)
+ *
+ * @param obj The created object
+ * @param file File of the creation call
+ * @param line Line of the creation call
+ * @return obj, so the macros can wrap the creation call
+ */
+lv_obj_t *lvgl_live_preview_source_track(lv_obj_t *obj, const char *file, int line) {
+    if (!obj) {
+        return obj;
+    }
+
+    source_map_entry_t *entry = source_map_find(obj);
+    if (!entry) {
+        if (source_map_count == source_map_cap) {
+            uint32_t cap = source_map_cap > 0 ? source_map_cap * 2 : 256;
+            source_map_entry_t *entries = realloc(source_map, cap * sizeof(source_map_entry_t));
+            if (!entries) {
+                return obj;
+            }
+            source_map = entries;
+            source_map_cap = cap;
+        }
+        entry = &source_map[source_map_count++];
+        entry->obj = obj;
+        lv_obj_add_event_cb(obj, source_map_delete_cb, LV_EVENT_DELETE, NULL);
+    }
+    entry->file = file;
+    entry->line = line;
+    return obj;
+}
+
+/* Finds the topmost visible object at a point; later children are drawn on top, so they are tried first */
+static lv_obj_t *source_map_hit_test(lv_obj_t *obj, int32_t x, int32_t y) {
+    lv_area_t area;
+    lv_obj_get_coords(obj, &area);
+    if (lv_obj_has_flag(obj, LV_OBJ_FLAG_HIDDEN) || x < area.x1 || x > area.x2 || y < area.y1 || y > area.y2) {
+        return NULL;
+    }
+
+    for (int32_t i = (int32_t)lv_obj_get_child_cnt(obj) - 1; i >= 0; i--) {
+        lv_obj_t *hit = source_map_hit_test(lv_obj_get_child(obj, i), x, y);
+        if (hit) {
+            return hit;
+        }
+    }
+    return obj;
+}
+
+/**
+ * @brief Looks up the creation site of the object at a display pixel (called from the webview)
+ *
+ * The top layer is searched before the active screen. Objects created inside LVGL, such as the
+ * parts of a message box, report the creation site of their nearest recorded parent.
+ *
+ * @param display Display index, 0 for the main display
+ * @param x X coordinate in display pixels
+ * @param y Y coordinate in display pixels
+ * @return JSON { file, line, class }, valid until the next call, or NULL if no site is recorded
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_source_at(int display, int32_t x, int32_t y) {
+    if (display < 0 || display > EXTRA_DISPLAY_COUNT || !preview_displays[display]) {
+        return NULL;
+    }
+
+#if LVGL_V9_OR_LATER
+    lv_obj_t *layers[] = {
+        lv_display_get_layer_top(preview_displays[display]),
+        lv_display_get_screen_active(preview_displays[display]),
+    };
+#else
+    lv_obj_t *layers[] = {
+        lv_disp_get_layer_top(preview_displays[display]),
+        lv_disp_get_scr_act(preview_displays[display]),
+    };
+#endif
+
+    for (size_t i = 0; i < sizeof(layers) / sizeof(layers[0]); i++) {
+        lv_obj_t *obj = layers[i] ? source_map_hit_test(layers[i], x, y) : NULL;
+        while (obj && !source_map_find(obj)) {
+            obj = lv_obj_get_parent(obj);
+        }
+        if (!obj) {
+            continue;
+        }
+
+        /* The file name is escaped for JSON (Windows paths contain backslashes) */
+        source_map_entry_t *entry = source_map_find(obj);
+        widget_tree_len = 0;
+        widget_tree_append("{\\"file\\":\\"");
+        for (const char *c = entry->file; *c; c++) {
+            if (*c == '"' || *c == '\\\\') {
+                widget_tree_append("\\\\%c", *c);
+            } else if ((unsigned char)*c >= 0x20) {
+                widget_tree_append("%c", *c);
+            }
+        }
+        widget_tree_append("\\",\\"line\\":%d,\\"class\\":\\"%s\\"}", entry->line, widget_class_name(obj));
+        return widget_tree_buf;
+    }
+    return NULL;
+}`;
+	}
+
+	/**
+	 * @brief Generates the exported getter and setter of the property inspector.
+	 *
+	 * Values are exchanged as strings in the form the inspector shows them: positions and sizes
+	 * as pixels, `50%` or `content`, the radius as pixels or `circle`, colours as `RRGGBB` and
+	 * fonts as the C expression of one of the built-in fonts compiled into LVGL.
+	 *
+	 * @returns The C code of the property inspector section
+	 */
+	private static generatePropertyInspectorSection(): string {
+		const fonts = [
+			...this.INSPECTOR_FONT_SIZES.map((size) => ({
+				define: `LV_FONT_MONTSERRAT_${size}`,
+				name: `lv_font_montserrat_${size}`,
+			})),
+			{ define: 'LV_FONT_UNSCII_8', name: 'lv_font_unscii_8' },
+			{ define: 'LV_FONT_UNSCII_16', name: 'lv_font_unscii_16' },
+		]
+			.map(
+				(font) => `#if ${font.define}
+    { &${font.name}, "&${font.name}" },
+#endif`
+			)
+			.join('\n');
+
+		return `/*====================
+ * PROPERTY INSPECTOR
+ * Live style editing of the object selected in the widget tree
+ *====================*/
+
+#include <string.h>
+
+typedef struct {
+    const lv_font_t *font;
+    const char *name;
+} inspector_font_t;
+
+/* Built-in fonts the inspector offers; LV_FONT_DEFAULT is last so named fonts are reported first */
+static const inspector_font_t inspector_fonts[] = {
+${fonts}
+    { LV_FONT_DEFAULT, "LV_FONT_DEFAULT" },
+};
+
+#if LVGL_V9_OR_LATER
+#define INSPECTOR_COLOR_HEX(color) (lv_color_to_u32(color) & 0xFFFFFF)
+#else
+#define INSPECTOR_COLOR_HEX(color) (lv_color_to32(color) & 0xFFFFFF)
+#endif
+
+/* Finds an object of the widget tree; ids are only used as pointers once found in a screen */
+static lv_obj_t *inspector_find(uint32_t id) {
+    for (int i = 0; i <= EXTRA_DISPLAY_COUNT; i++) {
+        lv_obj_t *screen = widget_display_screen(i);
+        if (screen && widget_tree_contains(screen, (uintptr_t)id)) {
+            return (lv_obj_t *)(uintptr_t)id;
+        }
+    }
+    return NULL;
+}
+
+static void inspector_append_coord(const char *key, int32_t value) {
+    if (value == LV_SIZE_CONTENT) {
+        widget_tree_append(",\\"%s\\":\\"content\\"", key);
+    } else if (LV_COORD_IS_PCT(value)) {
+        widget_tree_append(",\\"%s\\":\\"%d%%\\"", key, (int)LV_COORD_GET_PCT(value));
+    } else {
+        widget_tree_append(",\\"%s\\":\\"%d\\"", key, (int)value);
+    }
+}
+
+static int32_t inspector_parse_coord(const char *value) {
+    size_t len = strlen(value);
+    if (strcmp(value, "content") == 0) {
+        return LV_SIZE_CONTENT;
+    }
+    if (len > 0 && value[len - 1] == '%') {
+        return LV_PCT(atoi(value));
+    }
+    return atoi(value);
+}
+
+/**
+ * @brief Reads the inspected style properties of an object (called from the webview)
+ *
+ * @param id Object id from lvgl_live_preview_widget_tree()
+ * @return JSON { class, fonts, values }, valid until the next call, or NULL if the object is gone
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_widget_props(uint32_t id) {
+    lv_obj_t *obj = inspector_find(id);
+    if (!obj) {
+        return NULL;
+    }
+
+    widget_tree_len = 0;
+    widget_tree_append("{\\"class\\":\\"%s\\",\\"fonts\\":[", widget_class_name(obj));
+    const lv_font_t *font = lv_obj_get_style_text_font(obj, LV_PART_MAIN);
+    const char *font_name = "";
+    for (size_t i = 0; i < sizeof(inspector_fonts) / sizeof(inspector_fonts[0]); i++) {
+        widget_tree_append("%s\\"%s\\"", i > 0 ? "," : "", inspector_fonts[i].name);
+        if (font == inspector_fonts[i].font && font_name[0] == '\\0') {
+            font_name = inspector_fonts[i].name;
+        }
+    }
+
+    widget_tree_append("],\\"values\\":{\\"textFont\\":\\"%s\\"", font_name);
+    inspector_append_coord("x", lv_obj_get_style_x(obj, LV_PART_MAIN));
+    inspector_append_coord("y", lv_obj_get_style_y(obj, LV_PART_MAIN));
+    inspector_append_coord("width", lv_obj_get_style_width(obj, LV_PART_MAIN));
+    inspector_append_coord("height", lv_obj_get_style_height(obj, LV_PART_MAIN));
+    widget_tree_append(",\\"padTop\\":\\"%d\\",\\"padBottom\\":\\"%d\\",\\"padLeft\\":\\"%d\\",\\"padRight\\":\\"%d\\"",
+        (int)lv_obj_get_style_pad_top(obj, LV_PART_MAIN), (int)lv_obj_get_style_pad_bottom(obj, LV_PART_MAIN),
+        (int)lv_obj_get_style_pad_left(obj, LV_PART_MAIN), (int)lv_obj_get_style_pad_right(obj, LV_PART_MAIN));
+
+    int32_t radius = lv_obj_get_style_radius(obj, LV_PART_MAIN);
+    if (radius == LV_RADIUS_CIRCLE) {
+        widget_tree_append(",\\"radius\\":\\"circle\\"");
+    } else {
+        widget_tree_append(",\\"radius\\":\\"%d\\"", (int)radius);
+    }
+
+    widget_tree_append(",\\"bgColor\\":\\"%06lX\\",\\"bgOpa\\":\\"%d\\",\\"textColor\\":\\"%06lX\\"}}",
+        (unsigned long)INSPECTOR_COLOR_HEX(lv_obj_get_style_bg_color(obj, LV_PART_MAIN)),
+        (int)lv_obj_get_style_bg_opa(obj, LV_PART_MAIN),
+        (unsigned long)INSPECTOR_COLOR_HEX(lv_obj_get_style_text_color(obj, LV_PART_MAIN)));
+    return widget_tree_buf;
+}
+
+/**
+ * @brief Sets an inspected style property on the live object and redraws (called from the webview)
+ *
+ * The value is set as a local style of the main part, like lv_obj_set_style_*(obj, value, LV_PART_MAIN).
+ *
+ * @param id Object id from lvgl_live_preview_widget_tree()
+ * @param name Property name as in lvgl_live_preview_widget_props()
+ * @param value New value in the form lvgl_live_preview_widget_props() reports it
+ * @return true if the property was set, false if the object is gone or the property or font is unknown
+ */
+EMSCRIPTEN_KEEPALIVE bool lvgl_live_preview_widget_set_prop(uint32_t id, const char *name, const char *value) {
+    lv_obj_t *obj = inspector_find(id);
+    if (!obj) {
+        return false;
+    }
+
+    if (strcmp(name, "x") == 0) {
+        lv_obj_set_x(obj, inspector_parse_coord(value));
+    } else if (strcmp(name, "y") == 0) {
+        lv_obj_set_y(obj, inspector_parse_coord(value));
+    } else if (strcmp(name, "width") == 0) {
+        lv_obj_set_width(obj, inspector_parse_coord(value));
+    } else if (strcmp(name, "height") == 0) {
+        lv_obj_set_height(obj, inspector_parse_coord(value));
+    } else if (strcmp(name, "padTop") == 0) {
+        lv_obj_set_style_pad_top(obj, atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "padBottom") == 0) {
+        lv_obj_set_style_pad_bottom(obj, atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "padLeft") == 0) {
+        lv_obj_set_style_pad_left(obj, atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "padRight") == 0) {
+        lv_obj_set_style_pad_right(obj, atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "radius") == 0) {
+        lv_obj_set_style_radius(obj, strcmp(value, "circle") == 0 ? LV_RADIUS_CIRCLE : atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "bgColor") == 0) {
+        lv_obj_set_style_bg_color(obj, lv_color_hex((uint32_t)strtoul(value, NULL, 16)), LV_PART_MAIN);
+    } else if (strcmp(name, "bgOpa") == 0) {
+        lv_obj_set_style_bg_opa(obj, (lv_opa_t)atoi(value), LV_PART_MAIN);
+    } else if (strcmp(name, "textColor") == 0) {
+        lv_obj_set_style_text_color(obj, lv_color_hex((uint32_t)strtoul(value, NULL, 16)), LV_PART_MAIN);
+    } else if (strcmp(name, "textFont") == 0) {
+        const lv_font_t *font = NULL;
+        for (size_t i = 0; i < sizeof(inspector_fonts) / sizeof(inspector_fonts[0]) && !font; i++) {
+            if (strcmp(value, inspector_fonts[i].name) == 0) {
+                font = inspector_fonts[i].font;
+            }
+        }
+        if (!font) {
+            return false;
+        }
+        lv_obj_set_style_text_font(obj, font, LV_PART_MAIN);
+    } else {
+        return false;
+    }
+
+    /* Redraw right away, also while the virtual clock is paused */
+    lv_refr_now(NULL);
+    return true;
+}`;
+	}
+
+	/**
+	 * @brief Generates the exported memory monitor the webview polls.
+	 *
+	 * Reports LVGL's heap from lv_mem_monitor() and the end of the WASM heap, which grows with
+	 * malloc() of user code and of LVGL when it uses the C library allocator.
+	 *
+	 * @returns The C code of the memory monitor section
+	 */
+	private static generateMemoryMonitorSection(): string {
+		return `/*====================
+ * MEMORY MONITOR
+ * LVGL heap usage shown in the status bar
+ *====================*/
+
+#include <unistd.h>
+
+/**
+ * Reads the LVGL heap usage. total is 0 if LVGL does not use its built-in allocator, in which
+ * case only the WASM heap end is meaningful.
+ *
+ * @return JSON {total,free,freeBiggest,maxUsed,usedPct,fragPct,wasmUsed}, sizes in bytes
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_mem_monitor(void) {
+    static char json[192];
+    lv_mem_monitor_t mon;
+    lv_mem_monitor(&mon);
+    snprintf(json, sizeof(json),
+             "{\\"total\\":%lu,\\"free\\":%lu,\\"freeBiggest\\":%lu,\\"maxUsed\\":%lu,"
+             "\\"usedPct\\":%d,\\"fragPct\\":%d,\\"wasmUsed\\":%lu}",
+             (unsigned long)mon.total_size, (unsigned long)mon.free_size,
+             (unsigned long)mon.free_biggest_size, (unsigned long)mon.max_used,
+             (int)mon.used_pct, (int)mon.frag_pct, (unsigned long)(uintptr_t)sbrk(0));
+    return json;
+}`;
+	}
+
+	/**
+	 * @brief Generates the frame timing of the main display reported in performance mode.
+	 *
+	 * Only active when LVGL is built with LV_USE_PERF_MONITOR. LVGL 9 reports refreshes through
+	 * display events; in LVGL 8 the refresh timer is wrapped and the refreshed pixels come from
+	 * the driver's monitor_cb. Times are measured in real time, independent of the virtual clock.
+	 *
+	 * @returns The C code of the performance monitor section
+	 */
+	private static generatePerformanceMonitorSection(): string {
+		return `/*====================
+ * PERFORMANCE MONITOR
+ * Frame timing of the main display in performance mode (LV_USE_PERF_MONITOR)
+ *====================*/
+
+#if LV_USE_PERF_MONITOR
+static uint32_t perf_frames = 0;
+static double perf_render_ms = 0;
+static double perf_max_render_ms = 0;
+static uint64_t perf_area_px = 0;
+
+/* Pixels to redraw in the refresh in progress, 0 if it has nothing to draw */
+static uint32_t perf_frame_px = 0;
+
+static uint32_t perf_display_px(void) {
+#if LVGL_V9_OR_LATER
+    return (uint32_t)lv_display_get_horizontal_resolution(preview_displays[0]) *
+           (uint32_t)lv_display_get_vertical_resolution(preview_displays[0]);
+#else
+    return (uint32_t)lv_disp_get_hor_res(preview_displays[0]) * (uint32_t)lv_disp_get_ver_res(preview_displays[0]);
+#endif
+}
+
+/**
+ * Adds a finished refresh to the statistics, unless it had nothing to redraw.
+ */
+static void perf_frame_done(double ms) {
+    if (perf_frame_px == 0) {
+        return;
+    }
+    uint32_t display_px = perf_display_px();
+    perf_frames++;
+    perf_render_ms += ms;
+    if (ms > perf_max_render_ms) {
+        perf_max_render_ms = ms;
+    }
+    perf_area_px += perf_frame_px < display_px ? perf_frame_px : display_px;
+    perf_frame_px = 0;
+}
+
+#if LVGL_V9_OR_LATER
+static double perf_frame_start = 0;
+
+/* Invalidated areas are summed, so overlapping areas count more than once up to the display size */
+static void perf_display_event_cb(lv_event_t *e) {
+    lv_event_code_t code = lv_event_get_code(e);
+    if (code == LV_EVENT_INVALIDATE_AREA) {
+        perf_frame_px += lv_area_get_size((const lv_area_t *)lv_event_get_param(e));
+    } else if (code == LV_EVENT_REFR_START) {
+        perf_frame_start = emscripten_get_now();
+    } else if (code == LV_EVENT_REFR_READY) {
+        perf_frame_done(emscripten_get_now() - perf_frame_start);
+    }
+}
+#else
+static void perf_monitor_cb(lv_disp_drv_t *drv, uint32_t time, uint32_t px) {
+    (void)drv;
+    (void)time;
+    perf_frame_px = px;
+}
+
+static void perf_refr_timer_cb(lv_timer_t *timer) {
+    double start = emscripten_get_now();
+    perf_frame_px = 0;
+    _lv_disp_refr_timer(timer);
+    perf_frame_done(emscripten_get_now() - start);
+}
+#endif
+#endif /* LV_USE_PERF_MONITOR */
+
+/**
+ * @brief Starts timing the refreshes of the main display (called from main())
+ */
+static void performance_monitor_attach(void) {
+#if LV_USE_PERF_MONITOR
+#if LVGL_V9_OR_LATER
+    lv_display_add_event_cb(preview_displays[0], perf_display_event_cb, LV_EVENT_ALL, NULL);
+#else
+    preview_displays[0]->driver->monitor_cb = perf_monitor_cb;
+    lv_timer_set_cb(preview_displays[0]->refr_timer, perf_refr_timer_cb);
+#endif
+#endif
+}
+
+/**
+ * Reads and resets the frame timing of the main display. Only frames that redrew something
+ * are counted.
+ *
+ * @return JSON {frames,renderMs,maxRenderMs,areaPx,displayPx} since the previous call, times
+ *         in milliseconds, or NULL if LVGL is not built in performance mode
+ */
+EMSCRIPTEN_KEEPALIVE const char *lvgl_live_preview_perf_stats(void) {
+#if LV_USE_PERF_MONITOR
+    static char json[160];
+    snprintf(json, sizeof(json),
+             "{\\"frames\\":%lu,\\"renderMs\\":%.3f,\\"maxRenderMs\\":%.3f,\\"areaPx\\":%llu,\\"displayPx\\":%lu}",
+             (unsigned long)perf_frames, perf_render_ms, perf_max_render_ms,
+             (unsigned long long)perf_area_px, (unsigned long)perf_display_px());
+    perf_frames = 0;
+    perf_render_ms = 0;
+    perf_max_render_ms = 0;
+    perf_area_px = 0;
+    return json;
+#else
+    return NULL;
+#endif
+}`;
+	}
+
+	/**
+	 * @brief Generates the redraw area reporting of the webview's "Redraws" toolbar button.
+	 *
+	 * Every area flushed to a display is passed to the webview, which outlines it over the
+	 * canvas. LVGL 8 wraps the flush callback of each display; LVGL 9 listens to the
+	 * LV_EVENT_FLUSH_START event that is sent right before the flush callback, since the SDL
+	 * driver's callback cannot be read back. Reporting is off until the webview turns it on.
+	 *
+	 * @returns The C code of the redraw area section
+	 */
+	private static generateRedrawAreaSection(): string {
+		return `/*====================
+ * REDRAW AREAS
+ * Flushed areas outlined by the webview to spot excessive invalidation
+ *====================*/
+
+/* LVGL 9.0 has no LV_EVENT_FLUSH_START */
+#if LVGL_V9_OR_LATER && LVGL_VERSION_MAJOR == 9 && LVGL_VERSION_MINOR < 1
+#define REDRAW_AREAS_SUPPORTED 0
+#else
+#define REDRAW_AREAS_SUPPORTED 1
+#endif
+
+static bool redraw_reporting = false;
+
+/* Outlines a flushed area over the canvas of a display */
+EM_JS(void, lvgl_live_preview_js_redraw, (int index, int x, int y, int w, int h), {
+    if (typeof window !== 'undefined' && typeof window.lvglLivePreviewRedrawArea === 'function') {
+        window.lvglLivePreviewRedrawArea(index, x, y, w, h);
+    }
+});
+
+#if REDRAW_AREAS_SUPPORTED
+static void redraw_report(int index, const lv_area_t *area) {
+    if (redraw_reporting) {
+        lvgl_live_preview_js_redraw(index, area->x1, area->y1, lv_area_get_width(area), lv_area_get_height(area));
+    }
+}
+#endif
+
+#if LVGL_V9_OR_LATER
+#if REDRAW_AREAS_SUPPORTED
+static void redraw_flush_event_cb(lv_event_t *e) {
+    redraw_report((int)(intptr_t)lv_event_get_user_data(e), (const lv_area_t *)lv_event_get_param(e));
+}
+#endif
+#else
+typedef void (*redraw_flush_cb_t)(lv_disp_drv_t *drv, const lv_area_t *area, lv_color_t *color_p);
+static redraw_flush_cb_t redraw_flush_cbs[EXTRA_DISPLAY_COUNT + 1];
+
+static void redraw_flush_cb(lv_disp_drv_t *drv, const lv_area_t *area, lv_color_t *color_p) {
+    for (int i = 0; i <= EXTRA_DISPLAY_COUNT; i++) {
+        if (preview_displays[i] && preview_displays[i]->driver == drv) {
+            redraw_report(i, area);
+            redraw_flush_cbs[i](drv, area, color_p);
+            return;
+        }
+    }
+}
+#endif
+
+/**
+ * @brief Hooks the flushes of all displays (called from main() once the displays exist)
+ */
+static void redraw_areas_attach(void) {
+    for (int i = 0; i <= EXTRA_DISPLAY_COUNT; i++) {
+        if (!preview_displays[i]) {
+            continue;
+        }
+#if LVGL_V9_OR_LATER
+#if REDRAW_AREAS_SUPPORTED
+        lv_display_add_event_cb(preview_displays[i], redraw_flush_event_cb, LV_EVENT_FLUSH_START, (void *)(intptr_t)i);
+#endif
+#else
+        redraw_flush_cbs[i] = preview_displays[i]->driver->flush_cb;
+        preview_displays[i]->driver->flush_cb = redraw_flush_cb;
+#endif
+    }
+}
+
+/**
+ * @brief Turns the reporting of flushed areas on or off (called from the webview)
+ *
+ * @return false if the LVGL version cannot report flushed areas
+ */
+EMSCRIPTEN_KEEPALIVE bool lvgl_live_preview_set_redraw_reporting(bool enabled) {
+    redraw_reporting = enabled && REDRAW_AREAS_SUPPORTED;
+    return REDRAW_AREAS_SUPPORTED;
+}`;
+	}
+
+	/**
+	 * @brief Generates the additional displays and the helpers user code and the webview use to reach them.
+	 *
+	 * Additional displays render through a flush callback that passes the pixels to the webview,
+	 * which draws them into the canvas of the display. Display 0 is the main (SDL) display.
+	 *
+	 * @param displays Additional displays, display 1 first
+	 * @returns C code for the display section of main.c
+	 */
+	private static generateDisplaySection(displays: DisplayConfig[]): string {
+		const sizes =
+			displays.length > 0
+				? displays.map((display) => `    { ${display.width}, ${display.height} },`).join('\n')
+				: '    { 0, 0 },';
+
+		return `/*====================
+ * DISPLAYS
+ * Display 0 is the SDL window, additional displays are drawn by the webview
+ *====================*/
+
+#define EXTRA_DISPLAY_COUNT ${displays.length}
+/* Draw buffers of the additional displays come from the WASM heap, not LV_MEM_SIZE */
+#define EXTRA_DISPLAY_BUF_LINES 20
+
+#if LVGL_V9_OR_LATER
+typedef lv_display_t preview_display_t;
+#else
+typedef lv_disp_t preview_display_t;
+#endif
+
+typedef struct {
+    int32_t x;
+    int32_t y;
+    bool pressed;
+} extra_pointer_t;
+
+static const int32_t extra_display_res[][2] = {
+${sizes}
+};
+
+static preview_display_t *preview_displays[EXTRA_DISPLAY_COUNT + 1];
+static extra_pointer_t extra_pointers[EXTRA_DISPLAY_COUNT + 1];
+
+/* Draws a flushed area into the canvas of an additional display */
+EM_JS(void, lvgl_live_preview_js_flush, (int index, int x, int y, int w, int h, const uint8_t *pixels, int depth), {
+    if (typeof window !== 'undefined' && typeof window.lvglLivePreviewFlushDisplay === 'function') {
+        var bytes = w * h * (depth <= 8 ? 1 : depth / 8);
+        window.lvglLivePreviewFlushDisplay(index, x, y, w, h, HEAPU8.subarray(pixels, pixels + bytes), depth);
+    }
+});
+
+/**
+ * @brief Gets a display by index, for user code that builds UI on additional displays
+ *
+ * @param index 0 for the main display, 1..n for the additional displays in the project config
+ * @return The display, or NULL if the index is out of range
+ */
+EMSCRIPTEN_KEEPALIVE preview_display_t *lvgl_live_preview_get_display(int index) {
+    if (index < 0 || index > EXTRA_DISPLAY_COUNT) {
+        return NULL;
+    }
+    return preview_displays[index];
+}
+
+/**
+ * @brief Updates the pointer of an additional display (called from the webview)
+ *
+ * @param index Display index, 1..n
+ * @param x Horizontal position in display pixels
+ * @param y Vertical position in display pixels
+ * @param pressed Whether the pointer is pressed
+ */
+EMSCRIPTEN_KEEPALIVE void lvgl_live_preview_pointer_event(int index, int x, int y, bool pressed) {
+    if (index < 1 || index > EXTRA_DISPLAY_COUNT) {
+        return;
+    }
+    extra_pointers[index].x = x;
+    extra_pointers[index].y = y;
+    extra_pointers[index].pressed = pressed;
+}
+
+#if LVGL_V9_OR_LATER
+
+static void extra_display_flush(lv_display_t *display, const lv_area_t *area, uint8_t *px_map) {
+    int index = (int)(intptr_t)lv_display_get_user_data(display);
+    lvgl_live_preview_js_flush(index, area->x1, area->y1, lv_area_get_width(area), lv_area_get_height(area), px_map,
+                               LV_COLOR_DEPTH);
+    lv_display_flush_ready(display);
+}
+
+static void extra_pointer_read(lv_indev_t *indev, lv_indev_data_t *data) {
+    extra_pointer_t *pointer = &extra_pointers[(int)(intptr_t)lv_indev_get_user_data(indev)];
+    data->point.x = pointer->x;
+    data->point.y = pointer->y;
+    data->state = pointer->pressed ? LV_INDEV_STATE_PRESSED : LV_INDEV_STATE_RELEASED;
+}
+
+/**
+ * @brief Creates the additional displays and their pointer input devices
+ */
+static void create_extra_displays(void) {
+    for (int i = 1; i <= EXTRA_DISPLAY_COUNT; i++) {
+        int32_t width = extra_display_res[i - 1][0];
+        int32_t height = extra_display_res[i - 1][1];
+        lv_display_t *display = lv_display_create(width, height);
+        uint32_t buf_size = width * EXTRA_DISPLAY_BUF_LINES * LV_COLOR_FORMAT_GET_SIZE(lv_display_get_color_format(display));
+        void *buf = malloc(buf_size);
+        if (!buf) {
+            printf("Failed to allocate the draw buffer of display %d (%u bytes)\\n", i, (unsigned)buf_size);
+            lv_display_delete(display);
+            continue;
+        }
+        lv_display_set_buffers(display, buf, NULL, buf_size, LV_DISPLAY_RENDER_MODE_PARTIAL);
+        lv_display_set_flush_cb(display, extra_display_flush);
+        lv_display_set_user_data(display, (void *)(intptr_t)i);
+
+        lv_indev_t *pointer = lv_indev_create();
+        lv_indev_set_type(pointer, LV_INDEV_TYPE_POINTER);
+        lv_indev_set_read_cb(pointer, extra_pointer_read);
+        lv_indev_set_user_data(pointer, (void *)(intptr_t)i);
+        lv_indev_set_display(pointer, display);
+
+        preview_displays[i] = display;
+        printf("Display %d created (%dx%d)\\n", i, (int)width, (int)height);
+    }
+}
+
+#else
+
+static lv_disp_draw_buf_t extra_draw_bufs[EXTRA_DISPLAY_COUNT + 1];
+static lv_disp_drv_t extra_disp_drvs[EXTRA_DISPLAY_COUNT + 1];
+static lv_indev_drv_t extra_indev_drvs[EXTRA_DISPLAY_COUNT + 1];
+
+static void extra_display_flush(lv_disp_drv_t *drv, const lv_area_t *area, lv_color_t *color_p) {
+    int index = (int)(intptr_t)drv->user_data;
+    lvgl_live_preview_js_flush(index, area->x1, area->y1, lv_area_get_width(area), lv_area_get_height(area),
+                               (const uint8_t *)color_p, LV_COLOR_DEPTH);
+    lv_disp_flush_ready(drv);
+}
+
+static void extra_pointer_read(lv_indev_drv_t *drv, lv_indev_data_t *data) {
+    extra_pointer_t *pointer = &extra_pointers[(int)(intptr_t)drv->user_data];
+    data->point.x = pointer->x;
+    data->point.y = pointer->y;
+    data->state = pointer->pressed ? LV_INDEV_STATE_PRESSED : LV_INDEV_STATE_RELEASED;
+}
+
+/**
+ * @brief Creates the additional displays and their pointer input devices
+ */
+static void create_extra_displays(void) {
+    for (int i = 1; i <= EXTRA_DISPLAY_COUNT; i++) {
+        int32_t width = extra_display_res[i - 1][0];
+        int32_t height = extra_display_res[i - 1][1];
+        uint32_t buf_pixels = width * EXTRA_DISPLAY_BUF_LINES;
+        lv_color_t *buf = malloc(buf_pixels * sizeof(lv_color_t));
+        if (!buf) {
+            printf("Failed to allocate the draw buffer of display %d (%u bytes)\\n", i,
+                   (unsigned)(buf_pixels * sizeof(lv_color_t)));
+            continue;
+        }
+        lv_disp_draw_buf_init(&extra_draw_bufs[i], buf, NULL, buf_pixels);
+
+        lv_disp_drv_init(&extra_disp_drvs[i]);
+        extra_disp_drvs[i].draw_buf = &extra_draw_bufs[i];
+        extra_disp_drvs[i].flush_cb = extra_display_flush;
+        extra_disp_drvs[i].hor_res = width;
+        extra_disp_drvs[i].ver_res = height;
+        extra_disp_drvs[i].user_data = (void *)(intptr_t)i;
+        preview_displays[i] = lv_disp_drv_register(&extra_disp_drvs[i]);
+
+        lv_indev_drv_init(&extra_indev_drvs[i]);
+        extra_indev_drvs[i].type = LV_INDEV_TYPE_POINTER;
+        extra_indev_drvs[i].read_cb = extra_pointer_read;
+        extra_indev_drvs[i].disp = preview_displays[i];
+        extra_indev_drvs[i].user_data = (void *)(intptr_t)i;
+        lv_indev_drv_register(&extra_indev_drvs[i]);
+
+        printf("Display %d created (%dx%d)\\n", i, (int)width, (int)height);
+    }
+}
+
+#endif`;
+	}
 }
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { InputRecording, RecordedInputEvent } from '../types';
+import { OutputFolder } from '../utils/outputFolder';
+
+/**
+ * @class InputRecorder
+ * @brief Collects the input events recorded in the preview and saves them as JSON.
+ *
+ * The webview sends every event as it happens, so a recording survives the webview being
+ * recreated. Recordings are saved to the folder set in `lvglPreview.recordingFolder` and
+ * loaded back for replay with load().
+ */
+export class InputRecorder {
+	/** Fields each event type needs for replay, with their JSON types */
+	private static readonly EVENT_FIELDS: Record<string, Record<string, 'number' | 'boolean' | 'string'>> = {
+		pointer: { display: 'number', x: 'number', y: 'number', pressed: 'boolean' },
+		wheel: { deltaY: 'number', deltaMode: 'number' },
+		key: { action: 'string', key: 'string', code: 'string', keyCode: 'number', charCode: 'number' },
+	};
+
+	/** Key event actions the webview replays */
+	private static readonly KEY_ACTIONS = ['down', 'up', 'press'];
+
+	private events: RecordedInputEvent[] | undefined;
+
+	/**
+	 * @brief Creates a new InputRecorder instance.
+	 *
+	 * @param outputChannel - Output channel for logging
+	 */
+	constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+	/**
+	 * @brief Starts a new recording, dropping any unsaved events.
+	 */
+	public start(): void {
+		this.events = [];
+		this.outputChannel.appendLine('[InputRecorder] Recording started');
+	}
+
+	/**
+	 * @brief Checks whether a recording is in progress.
+	 *
+	 * @returns true while recording
+	 */
+	public isRecording(): boolean {
+		return this.events !== undefined;
+	}
+
+	/**
+	 * @brief Adds an event sent by the webview; ignored when not recording.
+	 *
+	 * @param event - The recorded event
+	 */
+	public add(event: RecordedInputEvent): void {
+		this.events?.push(event);
+	}
+
+	/**
+	 * @brief Ends the recording and saves it.
+	 *
+	 * @param sourceFile - URI of the previewed file, used for the folder and file name
+	 * @returns URI of the saved file, or undefined if nothing was recorded
+	 */
+	public async stop(sourceFile: vscode.Uri): Promise<vscode.Uri | undefined> {
+		const events = this.events;
+		this.events = undefined;
+
+		if (!events || events.length === 0) {
+			this.outputChannel.appendLine('[InputRecorder] Recording stopped, no input recorded');
+			return undefined;
+		}
+
+		const recording: InputRecording = {
+			version: 1,
+			source: path.basename(sourceFile.fsPath),
+			events,
+		};
+
+		const folder = OutputFolder.resolve('recordingFolder', 'recordings', sourceFile);
+		await fs.promises.mkdir(folder, { recursive: true });
+
+		const baseName = path.basename(sourceFile.fsPath, path.extname(sourceFile.fsPath));
+		const filePath = path.join(folder, `${baseName}_${OutputFolder.getFileTimestamp()}.json`);
+		await fs.promises.writeFile(filePath, JSON.stringify(recording, null, '\t'));
+		this.outputChannel.appendLine(`[InputRecorder] Saved ${events.length} events to ${filePath}`);
+
+		return vscode.Uri.file(filePath);
+	}
+
+	/**
+	 * @brief Loads and validates a recording.
+	 *
+	 * @param fileUri - URI of the recording's JSON file
+	 * @returns The recording with its events ordered by tick
+	 * @throws Error if the file cannot be read or is not a valid recording
+	 */
+	public static async load(fileUri: vscode.Uri): Promise<InputRecording> {
+		const content = await fs.promises.readFile(fileUri.fsPath, 'utf-8');
+		const recording = JSON.parse(content) as InputRecording;
+
+		if (recording?.version !== 1 || !Array.isArray(recording.events)) {
+			throw new Error(`${path.basename(fileUri.fsPath)} is not an input recording (version 1)`);
+		}
+
+		recording.events.forEach((event, index) => this.validateEvent(event, `events[${index}]`, fileUri));
+
+		// Hand-edited recordings may be out of order; the sort is stable for events of the same tick
+		recording.events.sort((a, b) => a.tick - b.tick);
+		return recording;
+	}
+
+	/**
+	 * @brief Checks that a recorded event has the tick, type and fields its replay needs.
+	 *
+	 * @param event - Event read from the file
+	 * @param name - Name of the event in error messages, e.g. `events[3]`
+	 * @param fileUri - URI of the recording, for error messages
+	 * @throws Error naming the first missing or invalid field
+	 */
+	private static validateEvent(event: RecordedInputEvent, name: string, fileUri: vscode.Uri): void {
+		const fileName = path.basename(fileUri.fsPath);
+		if (!event || typeof event !== 'object') {
+			throw new Error(`'${name}' must be an object in ${fileName}`);
+		}
+		if (typeof event.tick !== 'number' || event.tick < 0) {
+			throw new Error(`'${name}.tick' must be a non-negative number in ${fileName}`);
+		}
+
+		const fields = Object.prototype.hasOwnProperty.call(this.EVENT_FIELDS, event.type)
+			? this.EVENT_FIELDS[event.type]
+			: undefined;
+		if (!fields) {
+			throw new Error(
+				`'${name}.type' must be one of ${Object.keys(this.EVENT_FIELDS).join(', ')} in ${fileName}`
+			);
+		}
+
+		const values = event as unknown as Record<string, unknown>;
+		for (const [field, type] of Object.entries(fields)) {
+			if (typeof values[field] !== type) {
+				throw new Error(`'${name}.${field}' of a ${event.type} event must be a ${type} in ${fileName}`);
+			}
+		}
+
+		if (event.type === 'key' && !this.KEY_ACTIONS.includes(event.action)) {
+			throw new Error(`'${name}.action' must be one of ${this.KEY_ACTIONS.join(', ')} in ${fileName}`);
+		}
+	}
+}
@@ -4,6 +4,29 @@ import * as fs from 'fs';
 import { CompilationManager } from '../compiler/compilationManager';
 import { FileWatcher } from '../watcher/fileWatcher';
 import { WebviewManager } from './webviewManager';
+import { RuntimeLogManager } from '../runtime/runtimeLogManager';
+import { StatusBarManager } from '../ui/statusBarManager';
+import { ScreenshotWriter } from './screenshotWriter';
+import { InputRecorder } from './inputRecorder';
+import {
+	DeviceFrame,
+	MemoryUsage,
+	PerformanceStats,
+	SourceLocation,
+	WebviewMessage,
+	WidgetProperties,
+	WidgetPropertyName,
+	WidgetTreeScreen,
+} from '../types';
+
+/**
+ * @interface BuildRequest
+ * @brief A build waiting in the build queue
+ */
+interface BuildRequest {
+	fileUri: vscode.Uri;
+	isReload: boolean;
+}
 
 /**
  * @class PreviewManager
@@ -15,15 +38,70 @@ import { WebviewManager } from './webviewManager';
  * - Triggering compilations through CompilationManager
  * - Watching file changes through FileWatcher
  * - Coordinating hot reload by recreating the webview on changes
+ * - Forwarding runtime output of the WASM module to RuntimeLogManager
+ * - Queueing builds so only one runs at a time and rapid saves cancel outdated builds
+ * - Carrying the user's saved UI state from the old module to the reloaded one
+ * - Remembering the screen, zoom, grid and time scale selected in the toolbar across reloads
+ * - Recording input from the preview and replaying a recording after each reload
+ * - Passing the widget tree sent by the webview on to the widget tree view
  *
  * @implements vscode.Disposable
  */
 export class PreviewManager implements vscode.Disposable {
+	private static readonly STATE_SNAPSHOT_TIMEOUT = 1000;
+	private static readonly VIDEO_CAPTURE_TIMEOUT = 30000;
+
 	private webviewManager: WebviewManager | undefined;
 	private fileWatcher: FileWatcher | undefined;
 	private compilationManager: CompilationManager;
+	private readonly runtimeLogManager: RuntimeLogManager;
+	private readonly statusBarManager: StatusBarManager;
 	private readonly outputChannel: vscode.OutputChannel;
+	private readonly inputRecorder: InputRecorder;
 	private currentFile: vscode.Uri | undefined;
+	private watchedFiles: string | undefined;
+	private activeBuild: Promise<void> | undefined;
+	private pendingBuild: BuildRequest | undefined;
+	private buildCancellation: vscode.CancellationTokenSource | undefined;
+	private savedState: string | undefined;
+	private activeScreen: string | undefined;
+	private deviceFrame: DeviceFrame | undefined;
+	private zoom = '1';
+	private showGrid = false;
+	private showRedraws = false;
+	private timeScale = 1;
+	private replayFile: vscode.Uri | undefined;
+	private readonly widgetTreeEmitter = new vscode.EventEmitter<WidgetTreeScreen[]>();
+	private readonly widgetPropertiesEmitter = new vscode.EventEmitter<{
+		id: number;
+		properties: WidgetProperties | null;
+	}>();
+	private readonly memoryUsageEmitter = new vscode.EventEmitter<MemoryUsage | null>();
+	private readonly performanceStatsEmitter = new vscode.EventEmitter<PerformanceStats | null>();
+
+	/**
+	 * Fired with the widget tree of the running module after each load, screen change or refresh,
+	 * and with an empty tree when the preview stops
+	 */
+	public readonly onDidUpdateWidgetTree = this.widgetTreeEmitter.event;
+
+	/**
+	 * Fired with the style properties of an object after a request or an edit, with null
+	 * properties if the object no longer exists
+	 */
+	public readonly onDidUpdateWidgetProperties = this.widgetPropertiesEmitter.event;
+
+	/**
+	 * Fired with the memory usage of the running module when it changes, and with null when the
+	 * preview stops
+	 */
+	public readonly onDidUpdateMemoryUsage = this.memoryUsageEmitter.event;
+
+	/**
+	 * Fired every second with the frame timing of the main display in performance mode, and with
+	 * null when a module without performance mode loads or the preview stops
+	 */
+	public readonly onDidUpdatePerformanceStats = this.performanceStatsEmitter.event;
 
 	/**
 	 * @constructor
@@ -31,15 +109,22 @@ export class PreviewManager implements vscode.Disposable {
 	 *
 	 * @param context - The VS Code extension context
 	 * @param compilationManager - Manager for handling LVGL compilation
+	 * @param runtimeLogManager - Manager for runtime output of the WASM module
+	 * @param statusBarManager - Status bar item showing the build state
 	 * @param outputChannel - Output channel for logging
 	 */
 	constructor(
 		private context: vscode.ExtensionContext,
 		compilationManager: CompilationManager,
+		runtimeLogManager: RuntimeLogManager,
+		statusBarManager: StatusBarManager,
 		outputChannel: vscode.OutputChannel
 	) {
 		this.compilationManager = compilationManager;
+		this.runtimeLogManager = runtimeLogManager;
+		this.statusBarManager = statusBarManager;
 		this.outputChannel = outputChannel;
+		this.inputRecorder = new InputRecorder(outputChannel);
 	}
 
 	/**
@@ -65,6 +150,7 @@ export class PreviewManager implements vscode.Disposable {
 				this.webviewManager = new WebviewManager(this.context, this.outputChannel, async () => {
 					await this.rebuild();
 				});
+				this.webviewManager.onDidReceiveMessage((message) => this.handleWebviewMessage(message));
 			}
 
 			// Show webview
@@ -74,7 +160,7 @@ export class PreviewManager implements vscode.Disposable {
 
 			// Compile the file
 			this.outputChannel.appendLine('[PreviewManager] Starting compilation...');
-			await this.compileAndUpdate(fileUri);
+			await this.requestBuild(fileUri, false);
 
 			// Start watching files for changes
 			const config = vscode.workspace.getConfiguration('lvglPreview');
@@ -91,26 +177,11 @@ export class PreviewManager implements vscode.Disposable {
 
 				this.fileWatcher = new FileWatcher(async (uri) => {
 					this.outputChannel.appendLine(`File changed: ${uri.fsPath}`);
-					await this.compileAndUpdate(fileUri, true); // Always use original fileUri for compilation
+					await this.requestBuild(fileUri, true); // Always use original fileUri for compilation
 				}, debounceDelay);
+				this.watchedFiles = undefined;
 
-				// Check if we have a project config with dependencies
-				const projectConfig = this.compilationManager.getCurrentConfig();
-				if (projectConfig) {
-					// Watch main file and all dependencies
-					const filesToWatch = [
-						vscode.Uri.file(projectConfig.mainFile),
-						...projectConfig.dependencies.map((dep) => vscode.Uri.file(dep)),
-					];
-					this.fileWatcher.watchFiles(filesToWatch);
-					this.outputChannel.appendLine(
-						`[PreviewManager] File watcher started for ${filesToWatch.length} files`
-					);
-				} else {
-					// Single file mode
-					this.fileWatcher.watchFile(fileUri);
-					this.outputChannel.appendLine('[PreviewManager] File watcher started');
-				}
+				this.updateWatchedFiles(fileUri);
 			}
 
 			this.outputChannel.appendLine('[PreviewManager] Preview started successfully');
@@ -124,6 +195,109 @@ export class PreviewManager implements vscode.Disposable {
 		}
 	}
 
+	/**
+	 * @brief Points the file watcher at the current set of project files.
+	 *
+	 * In project mode this is the main file, all dependencies, the user headers the main file and
+	 * the dependencies include, the project's lv_conf.h and the device bezel image. In single-file
+	 * mode it is the file and the user headers it includes. The header set is only known after a build, so this is called
+	 * after every compilation and only re-creates the watchers when the set changed.
+	 *
+	 * @param fileUri - URI of the previewed file (used in single-file mode)
+	 */
+	private updateWatchedFiles(fileUri: vscode.Uri): void {
+		if (!this.fileWatcher) {
+			return;
+		}
+
+		// Check if we have a project config with dependencies
+		const projectConfig = this.compilationManager.getCurrentConfig();
+		const files = projectConfig
+			? [
+					projectConfig.mainFile,
+					...projectConfig.dependencies,
+					...this.compilationManager.getMainFileHeaders(),
+					...this.compilationManager.getDependencyHeaders(),
+					...(projectConfig.lvConf ? [projectConfig.lvConf] : []),
+					...(projectConfig.device?.bezel ? [projectConfig.device.bezel] : []),
+				]
+			: [fileUri.fsPath, ...this.compilationManager.getMainFileHeaders()];
+		const filesToWatch = [...new Set(files)];
+
+		const watchedFiles = filesToWatch.join('\n');
+		if (watchedFiles === this.watchedFiles) {
+			return;
+		}
+		this.watchedFiles = watchedFiles;
+
+		if (filesToWatch.length > 1) {
+			// Watch main file, all dependencies and their headers
+			this.fileWatcher.watchFiles(filesToWatch.map((file) => vscode.Uri.file(file)));
+			this.outputChannel.appendLine(`[PreviewManager] File watcher started for ${filesToWatch.length} files`);
+		} else {
+			// Single file without user headers
+			this.fileWatcher.watchFile(fileUri);
+			this.outputChannel.appendLine('[PreviewManager] File watcher started');
+		}
+	}
+
+	/**
+	 * @brief Queues a build of the user's file.
+	 *
+	 * Only one build runs at a time, because concurrent builds would write the same output
+	 * files. A request that arrives while a build is running cancels it (killing emcc) and
+	 * replaces any request that was still waiting, so rapid saves only build the latest state.
+	 *
+	 * @param fileUri - URI of the C file to compile
+	 * @param isReload - Whether this is a hot reload (true) or initial load (false)
+	 * @returns Promise that resolves once the queue is empty
+	 */
+	private async requestBuild(fileUri: vscode.Uri, isReload: boolean): Promise<void> {
+		if (this.activeBuild) {
+			this.outputChannel.appendLine('[PreviewManager] Build in progress, superseding it');
+			// A superseded initial load still has to go through the reload path
+			this.pendingBuild = { fileUri, isReload: isReload || this.pendingBuild?.isReload === true };
+			this.buildCancellation?.cancel();
+			return this.activeBuild;
+		}
+
+		this.activeBuild = this.runBuildQueue({ fileUri, isReload });
+		return this.activeBuild;
+	}
+
+	/**
+	 * @brief Runs queued builds until no request is pending.
+	 *
+	 * @param request - The first build to run
+	 */
+	private async runBuildQueue(request: BuildRequest): Promise<void> {
+		let next: BuildRequest | undefined = request;
+
+		while (next) {
+			this.pendingBuild = undefined;
+			this.buildCancellation = new vscode.CancellationTokenSource();
+
+			try {
+				await this.compileAndUpdate(next.fileUri, next.isReload, this.buildCancellation.token);
+			} finally {
+				this.buildCancellation.dispose();
+				this.buildCancellation = undefined;
+			}
+
+			next = this.pendingBuild;
+		}
+
+		this.activeBuild = undefined;
+	}
+
+	/**
+	 * @brief Cancels the running build and drops any pending build.
+	 */
+	private cancelBuilds(): void {
+		this.pendingBuild = undefined;
+		this.buildCancellation?.cancel();
+	}
+
 	/**
 	 * @brief Compiles the user's file and updates the preview.
 	 *
@@ -132,13 +306,22 @@ export class PreviewManager implements vscode.Disposable {
 	 *
 	 * @param fileUri - URI of the C file to compile
 	 * @param isReload - Whether this is a hot reload (true) or initial load (false)
+	 * @param token - Cancelled when a newer build supersedes this one
 	 */
-	private async compileAndUpdate(fileUri: vscode.Uri, isReload: boolean = false): Promise<void> {
+	private async compileAndUpdate(
+		fileUri: vscode.Uri,
+		isReload: boolean,
+		token: vscode.CancellationToken
+	): Promise<void> {
 		try {
 			this.outputChannel.appendLine(`[PreviewManager] Compiling: ${fileUri.fsPath}`);
+			this.statusBarManager.setStatus('compiling');
 
-			// If this is a reload (not the first load), recreate the webview
+			// If this is a reload (not the first load), save the UI state and recreate the webview
 			if (isReload && this.webviewManager) {
+				// The reloaded module starts from scratch, so the recording ends here
+				await this.stopRecording();
+				await this.captureState(this.webviewManager);
 				const fileName = path.basename(fileUri.fsPath);
 				await this.webviewManager.recreate(fileName);
 			}
@@ -147,7 +330,20 @@ export class PreviewManager implements vscode.Disposable {
 			this.webviewManager?.sendMessage({ type: 'compiling' });
 
 			// Compile the file
-			const result = await this.compilationManager.compileUserFile(fileUri);
+			const result = await this.compilationManager.compileUserFile(fileUri, token);
+
+			// The build may have discovered new headers to watch
+			this.updateWatchedFiles(fileUri);
+
+			// The newer build takes over the webview, so don't flash this build's outcome
+			if (result.cancelled || token.isCancellationRequested) {
+				this.outputChannel.appendLine(
+					this.pendingBuild
+						? '[PreviewManager] Build superseded by a newer change, restarting'
+						: '[PreviewManager] Build cancelled'
+				);
+				return;
+			}
 
 			this.outputChannel.appendLine(
 				`[PreviewManager] Compilation result: ${result.success ? 'SUCCESS' : 'FAILED'}`
@@ -165,6 +361,7 @@ export class PreviewManager implements vscode.Disposable {
 
 				if (!wasmExists || !jsExists) {
 					this.outputChannel.appendLine('[PreviewManager] ERROR: Output files do not exist!');
+					this.statusBarManager.setStatus('error');
 					this.webviewManager?.sendMessage({
 						type: 'showError',
 						message: 'Compilation output files not found',
@@ -179,12 +376,27 @@ export class PreviewManager implements vscode.Disposable {
 				this.outputChannel.appendLine(`[PreviewManager] WASM content size: ${wasmContent.length} bytes`);
 				this.outputChannel.appendLine(`[PreviewManager] JS content size: ${jsContent.length} bytes`);
 
+				const projectConfig = this.compilationManager.getCurrentConfig();
+				const userFiles = projectConfig
+					? [projectConfig.mainFile, ...projectConfig.dependencies]
+					: [fileUri.fsPath];
+				this.runtimeLogManager.onReload(userFiles);
+
 				// Send content to the webview as base64-encoded WASM
 				this.webviewManager?.sendMessage({
 					type: 'loadWasm',
 					wasmBase64: wasmContent.toString('base64'),
 					jsContent: jsContent,
+					stateBase64: this.savedState,
+					screens: result.screens,
+					activeScreen: result.screens?.findIndex((s) => s.functionName === this.activeScreen) ?? -1,
+					colorQuantization: result.colorQuantization,
+					displays: result.displays,
 				});
+				this.deviceFrame = result.device;
+				this.updateView();
+				await this.sendReplay();
+				this.statusBarManager.setStatus('running');
 			} else {
 				// Show error in the webview
 				const errorMessage =
@@ -199,6 +411,7 @@ export class PreviewManager implements vscode.Disposable {
 					message: errorMessage,
 					errors: result.errors,
 				});
+				this.statusBarManager.setStatus('error');
 			}
 		} catch (error: unknown) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
@@ -212,20 +425,458 @@ export class PreviewManager implements vscode.Disposable {
 				type: 'showError',
 				message: `Compilation error: ${errorMessage}`,
 			});
+			this.statusBarManager.setStatus('error');
+		}
+	}
+
+	/**
+	 * @brief Asks the running module for its UI state before the webview is recreated.
+	 *
+	 * The module calls the user's `lvgl_live_preview_save_state()` hook and the returned blob is
+	 * passed to the next module. If no module is running (e.g. the previous build failed or was
+	 * superseded), the state saved earlier is kept so it still reaches the next successful build.
+	 * If a video capture was running, this also waits until its video has been sent.
+	 *
+	 * @param webviewManager - The webview hosting the running module
+	 */
+	private async captureState(webviewManager: WebviewManager): Promise<void> {
+		const snapshot = await new Promise<WebviewMessage | undefined>((resolve) => {
+			const timeout = setTimeout(() => {
+				listener.dispose();
+				resolve(undefined);
+			}, PreviewManager.STATE_SNAPSHOT_TIMEOUT);
+
+			const listener = webviewManager.onDidReceiveMessage((message) => {
+				if (message.type === 'stateSnapshot') {
+					clearTimeout(timeout);
+					listener.dispose();
+					resolve(message);
+				}
+			});
+
+			webviewManager.sendMessage({ type: 'requestStateSnapshot' });
+		});
+
+		if (snapshot?.type === 'stateSnapshot' && snapshot.videoPending) {
+			await this.waitForVideoCapture(webviewManager);
+		}
+
+		if (snapshot?.type !== 'stateSnapshot' || !snapshot.running) {
+			this.outputChannel.appendLine('[PreviewManager] No running module, keeping previously saved state');
+			return;
+		}
+
+		this.savedState = snapshot.stateBase64;
+		if (this.savedState) {
+			const size = Buffer.from(this.savedState, 'base64').length;
+			this.outputChannel.appendLine(`[PreviewManager] Saved UI state (${size} bytes)`);
+		}
+	}
+
+	/**
+	 * @brief Waits until the webview has sent the video of a stopped capture.
+	 *
+	 * The video is saved by the `videoCapture` message handler; this only keeps the webview
+	 * alive until the encoded video has arrived.
+	 *
+	 * @param webviewManager - The webview encoding the video
+	 */
+	private async waitForVideoCapture(webviewManager: WebviewManager): Promise<void> {
+		const received = await new Promise<boolean>((resolve) => {
+			const timeout = setTimeout(() => {
+				listener.dispose();
+				resolve(false);
+			}, PreviewManager.VIDEO_CAPTURE_TIMEOUT);
+
+			const listener = webviewManager.onDidReceiveMessage((message) => {
+				if (message.type === 'videoCapture') {
+					clearTimeout(timeout);
+					listener.dispose();
+					resolve(true);
+				}
+			});
+		});
+
+		if (!received) {
+			this.outputChannel.appendLine('[PreviewManager] Video capture was not received before the reload');
+		}
+	}
+
+	/**
+	 * @brief Handles messages from the webview that concern the running module.
+	 *
+	 * @param message - The message received from the webview
+	 */
+	private handleWebviewMessage(message: WebviewMessage): void {
+		switch (message.type) {
+			case 'runtimeLog':
+				this.runtimeLogManager.appendLog(message.stream, message.text);
+				break;
+			case 'screenChanged':
+				this.outputChannel.appendLine(
+					`[PreviewManager] Screen changed: ${message.functionName ?? 'lvgl_live_preview_init'}`
+				);
+				this.activeScreen = message.functionName ?? undefined;
+				break;
+			case 'viewChanged':
+				this.zoom = message.zoom;
+				this.showGrid = message.grid;
+				this.showRedraws = message.redraws;
+				this.timeScale = message.timeScale;
+				break;
+			case 'screenshot':
+				void this.saveScreenshot(message.displays);
+				break;
+			case 'toggleRecording':
+				void this.toggleRecording();
+				break;
+			case 'inputEvent':
+				this.inputRecorder.add(message.event);
+				break;
+			case 'replayFinished':
+				this.outputChannel.appendLine(`[PreviewManager] Replay finished (${message.events} events)`);
+				break;
+			case 'widgetTree':
+				this.widgetTreeEmitter.fire(message.screens);
+				break;
+			case 'widgetProperties':
+				this.widgetPropertiesEmitter.fire({ id: message.id, properties: message.properties });
+				break;
+			case 'memoryUsage':
+				this.memoryUsageEmitter.fire(message.usage);
+				break;
+			case 'performanceStats':
+				this.performanceStatsEmitter.fire(message.stats);
+				break;
+			case 'openSource':
+				void this.openSource(message.location);
+				break;
+			case 'videoCapture':
+				this.outputChannel.appendLine(`[PreviewManager] Video capture finished (${message.frames} frames)`);
+				void this.saveVideo(message.videoBase64);
+				break;
+		}
+	}
+
+	/**
+	 * @brief Asks the webview for the current widget tree, answered with a `widgetTree` message.
+	 */
+	public requestWidgetTree(): void {
+		this.webviewManager?.sendMessage({ type: 'requestWidgetTree' });
+	}
+
+	/**
+	 * @brief Highlights the bounding box of an object in the preview.
+	 *
+	 * @param id - Id of the object from the widget tree, null to remove the highlight
+	 */
+	public highlightWidget(id: number | null): void {
+		this.webviewManager?.sendMessage({ type: 'highlightWidget', id });
+	}
+
+	/**
+	 * @brief Asks the webview for the style properties of an object, answered with a
+	 * `widgetProperties` message.
+	 *
+	 * @param id - Id of the object from the widget tree
+	 */
+	public requestWidgetProperties(id: number): void {
+		this.webviewManager?.sendMessage({ type: 'requestWidgetProperties', id });
+	}
+
+	/**
+	 * @brief Sets a style property on the live object without recompiling.
+	 *
+	 * The webview answers with the updated properties and widget tree.
+	 *
+	 * @param id - Id of the object from the widget tree
+	 * @param name - The property
+	 * @param value - The new value, in the form of WidgetProperties.values
+	 */
+	public setWidgetProperty(id: number, name: WidgetPropertyName, value: string): void {
+		this.outputChannel.appendLine(`[PreviewManager] Setting ${name} of 0x${id.toString(16)} to ${value}`);
+		this.webviewManager?.sendMessage({ type: 'setWidgetProperty', id, name, value });
+	}
+
+	/**
+	 * @brief Opens the code that created the object alt-clicked in the preview.
+	 *
+	 * Relative file names are resolved against the previewed file's folder.
+	 *
+	 * @param location - Creation site sent by the webview, null if none was recorded for the object
+	 */
+	private async openSource(location: SourceLocation | null): Promise<void> {
+		if (!location) {
+			const enabled = vscode.workspace.getConfiguration('lvglPreview').get<boolean>('sourceMapping', false);
+			void vscode.window.showInformationMessage(
+				enabled
+					? 'No creation site was recorded for this object. Objects created outside the main file and its dependencies are not tracked.'
+					: 'Enable the lvglPreview.sourceMapping setting to jump from an object in the preview to the code that created it.'
+			);
+			return;
+		}
+
+		const baseDir = this.currentFile ? path.dirname(this.currentFile.fsPath) : '';
+		const fileUri = vscode.Uri.file(path.resolve(baseDir, location.file));
+		this.outputChannel.appendLine(
+			`[PreviewManager] ${location.class} created at ${fileUri.fsPath}:${location.line}`
+		);
+
+		// Open it in the editor group that shows the file already, the preview stays in its own group
+		const editor = vscode.window.visibleTextEditors.find((e) => e.document.uri.fsPath === fileUri.fsPath);
+		const position = new vscode.Position(Math.max(location.line - 1, 0), 0);
+		try {
+			await vscode.window.showTextDocument(fileUri, {
+				viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+				selection: new vscode.Range(position, position),
+			});
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to open ${fileUri.fsPath}: ${error}`);
+		}
+	}
+
+	/**
+	 * @brief Starts or stops the webview's video capture, like its toolbar button.
+	 *
+	 * When stopped, the webview sends the video in a `videoCapture` message.
+	 */
+	public toggleVideoCapture(): void {
+		this.webviewManager?.sendMessage({ type: 'toggleVideoCapture' });
+	}
+
+	/**
+	 * @brief Saves a video capture sent by the webview and offers to open it.
+	 *
+	 * @param videoBase64 - Base64-encoded WebM video
+	 */
+	private async saveVideo(videoBase64: string): Promise<void> {
+		if (!this.currentFile) {
+			return;
+		}
+
+		try {
+			const file = await ScreenshotWriter.saveVideo(videoBase64, this.currentFile, this.outputChannel);
+			const choice = await vscode.window.showInformationMessage(
+				`Video saved: ${vscode.workspace.asRelativePath(file)}`,
+				'Open'
+			);
+			if (choice === 'Open') {
+				await vscode.commands.executeCommand('vscode.open', file);
+			}
+		} catch (error: unknown) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.outputChannel.appendLine(`[PreviewManager] Failed to save video: ${errorMessage}`);
+			void vscode.window.showErrorMessage(`Failed to save video: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * @brief Starts recording pointer, wheel and keyboard input in the preview.
+	 *
+	 * The webview sends each event with its LVGL tick until stopRecording() is called or the
+	 * preview reloads.
+	 */
+	public startRecording(): void {
+		if (!this.currentFile) {
+			return;
+		}
+
+		this.inputRecorder.start();
+		this.webviewManager?.sendMessage({ type: 'setRecording', recording: true });
+	}
+
+	/**
+	 * @brief Stops recording and saves the recorded input, offering to replay or open the file.
+	 */
+	public async stopRecording(): Promise<void> {
+		if (!this.inputRecorder.isRecording() || !this.currentFile) {
+			return;
+		}
+
+		this.webviewManager?.sendMessage({ type: 'setRecording', recording: false });
+
+		try {
+			const file = await this.inputRecorder.stop(this.currentFile);
+			if (file) {
+				// Not awaited, a reload that ended the recording must not wait for the notification
+				void this.showRecordingSaved(file);
+			} else {
+				void vscode.window.showInformationMessage('Input recording stopped, no input was recorded');
+			}
+		} catch (error: unknown) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.outputChannel.appendLine(`[PreviewManager] Failed to save input recording: ${errorMessage}`);
+			void vscode.window.showErrorMessage(`Failed to save input recording: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * @brief Starts or stops recording, for the toolbar's record button.
+	 */
+	public async toggleRecording(): Promise<void> {
+		if (this.inputRecorder.isRecording()) {
+			await this.stopRecording();
+		} else {
+			this.startRecording();
+		}
+	}
+
+	/**
+	 * @brief Checks if input is being recorded.
+	 *
+	 * @returns true while recording
+	 */
+	public isRecording(): boolean {
+		return this.inputRecorder.isRecording();
+	}
+
+	/**
+	 * @brief Tells the user where a recording was saved and offers to replay or open it.
+	 *
+	 * @param file - URI of the saved recording
+	 */
+	private async showRecordingSaved(file: vscode.Uri): Promise<void> {
+		const choice = await vscode.window.showInformationMessage(
+			`Input recording saved: ${vscode.workspace.asRelativePath(file)}`,
+			'Replay',
+			'Open'
+		);
+		if (choice === 'Replay') {
+			try {
+				await this.replay(file);
+			} catch (error: unknown) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				void vscode.window.showErrorMessage(`Cannot replay input recording: ${errorMessage}`);
+			}
+		} else if (choice === 'Open') {
+			await vscode.commands.executeCommand('vscode.open', file);
+		}
+	}
+
+	/**
+	 * @brief Reloads the preview and replays a recording into the fresh module.
+	 *
+	 * The recording is replayed again after every reload until stopReplay() is called, unless
+	 * `lvglPreview.replayOnReload` is disabled. The file is read on each reload, so edits to it apply.
+	 *
+	 * @param fileUri - URI of the recording's JSON file
+	 * @throws Error if no preview is running or the file is not a valid recording
+	 */
+	public async replay(fileUri: vscode.Uri): Promise<void> {
+		if (!this.currentFile) {
+			throw new Error('Start the preview to replay input');
+		}
+
+		// Validate before the rebuild, so a broken file does not cost one
+		await InputRecorder.load(fileUri);
+		this.replayFile = fileUri;
+		this.outputChannel.appendLine(`[PreviewManager] Replaying ${fileUri.fsPath}`);
+		await this.rebuild();
+	}
+
+	/**
+	 * @brief Stops the running replay and no longer replays after reloads.
+	 */
+	public stopReplay(): void {
+		this.replayFile = undefined;
+		this.webviewManager?.sendMessage({ type: 'stopReplay' });
+	}
+
+	/**
+	 * @brief Sends the recording to replay to the webview, which starts it once the module runs.
+	 */
+	private async sendReplay(): Promise<void> {
+		if (!this.replayFile) {
+			return;
+		}
+
+		const fileName = path.basename(this.replayFile.fsPath);
+		try {
+			const recording = await InputRecorder.load(this.replayFile);
+			this.webviewManager?.sendMessage({ type: 'replayInput', recording });
+			this.outputChannel.appendLine(
+				`[PreviewManager] Replaying ${recording.events.length} events from ${fileName}`
+			);
+		} catch (error: unknown) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.outputChannel.appendLine(`[PreviewManager] Cannot replay ${fileName}: ${errorMessage}`);
+			void vscode.window.showErrorMessage(`Cannot replay ${fileName}: ${errorMessage}`);
+			this.replayFile = undefined;
+			return;
+		}
+
+		if (!vscode.workspace.getConfiguration('lvglPreview').get<boolean>('replayOnReload', true)) {
+			this.replayFile = undefined;
+		}
+	}
+
+	/**
+	 * @brief Asks the webview for a screenshot of the running preview.
+	 *
+	 * The webview answers with a `screenshot` message, the same one its toolbar button sends.
+	 */
+	public requestScreenshot(): void {
+		this.webviewManager?.sendMessage({ type: 'requestScreenshot' });
+	}
+
+	/**
+	 * @brief Saves a screenshot sent by the webview and offers to open it.
+	 *
+	 * @param displays - Base64-encoded PNG per display, main display first
+	 */
+	private async saveScreenshot(displays: string[]): Promise<void> {
+		if (!this.currentFile || displays.length === 0) {
+			return;
+		}
+
+		try {
+			const files = await ScreenshotWriter.save(displays, this.currentFile, this.outputChannel);
+			const choice = await vscode.window.showInformationMessage(
+				`Screenshot saved: ${vscode.workspace.asRelativePath(files[0])}`,
+				'Open'
+			);
+			if (choice === 'Open') {
+				await vscode.commands.executeCommand('vscode.open', files[0]);
+			}
+		} catch (error: unknown) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.outputChannel.appendLine(`[PreviewManager] Failed to save screenshot: ${errorMessage}`);
+			void vscode.window.showErrorMessage(`Failed to save screenshot: ${errorMessage}`);
 		}
 	}
 
 	/**
 	 * @brief Rebuilds the current preview.
 	 *
-	 * Forces a recompilation of the currently previewed file.
+	 * Forces a recompilation of the currently previewed file. A build that is
+	 * already running is superseded.
 	 */
 	public async rebuild(): Promise<void> {
 		if (this.currentFile) {
-			await this.compileAndUpdate(this.currentFile, true);
+			await this.requestBuild(this.currentFile, true);
 		}
 	}
 
+	/**
+	 * @brief Sends the device frame, the monitor DPI used for the "physical size" zoom and the
+	 * toolbar's zoom, grid, redraw and time scale selection to the webview.
+	 *
+	 * Called after every successful build, so the selection survives the webview being recreated,
+	 * and when `lvglPreview.monitorDpi` changes, which needs no rebuild.
+	 */
+	public updateView(): void {
+		const config = vscode.workspace.getConfiguration('lvglPreview');
+		this.webviewManager?.sendMessage({
+			type: 'updateView',
+			device: this.deviceFrame,
+			monitorDpi: config.get<number>('monitorDpi', 96),
+			zoom: this.zoom,
+			grid: this.showGrid,
+			redraws: this.showRedraws,
+			timeScale: this.timeScale,
+		});
+	}
+
 	/**
 	 * @brief Checks if a preview is currently running.
 	 *
@@ -250,18 +901,38 @@ export class PreviewManager implements vscode.Disposable {
 	 * Disposes the file watcher, webview, and clears diagnostics.
 	 */
 	public async stopPreview(): Promise<void> {
+		await this.stopRecording();
+		this.cancelBuilds();
 		this.fileWatcher?.dispose();
 		this.fileWatcher = undefined;
+		this.watchedFiles = undefined;
 		this.webviewManager?.dispose();
 		this.webviewManager = undefined;
 		this.currentFile = undefined;
+		this.savedState = undefined;
+		this.activeScreen = undefined;
+		this.deviceFrame = undefined;
+		this.zoom = '1';
+		this.showGrid = false;
+		this.showRedraws = false;
+		this.timeScale = 1;
+		this.replayFile = undefined;
+		this.widgetTreeEmitter.fire([]);
+		this.memoryUsageEmitter.fire(null);
+		this.performanceStatsEmitter.fire(null);
 		this.compilationManager.clearDiagnostics();
+		this.runtimeLogManager.clearDiagnostics();
 	}
 
 	/**
 	 * @brief Disposes all resources used by the PreviewManager.
 	 */
 	public dispose(): void {
-		void this.stopPreview();
+		void this.stopPreview().finally(() => {
+			this.widgetTreeEmitter.dispose();
+			this.widgetPropertiesEmitter.dispose();
+			this.memoryUsageEmitter.dispose();
+			this.performanceStatsEmitter.dispose();
+		});
 	}
 }
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { OutputFolder } from '../utils/outputFolder';
+
+/**
+ * @class ScreenshotWriter
+ * @brief Saves preview screenshots and video captures sent by the webview.
+ *
+ * Screenshots (PNG) and video captures (WebM) are written to the folder set in
+ * `lvglPreview.screenshotFolder`, relative to the workspace folder of the previewed file, with the
+ * source file name and a timestamp in the name. Additional displays are saved next to the main
+ * display with a `_display<n>` suffix; a video shows all displays side by side.
+ */
+export class ScreenshotWriter {
+	/**
+	 * @brief Writes the PNG images of one screenshot.
+	 *
+	 * @param displays - Base64-encoded PNG per display, main display first
+	 * @param sourceFile - URI of the previewed file, used for the folder and file names
+	 * @param outputChannel - Output channel for logging
+	 * @returns URIs of the written files
+	 */
+	public static async save(
+		displays: string[],
+		sourceFile: vscode.Uri,
+		outputChannel: vscode.OutputChannel
+	): Promise<vscode.Uri[]> {
+		const folder = OutputFolder.resolve('screenshotFolder', 'screenshots', sourceFile);
+		await fs.promises.mkdir(folder, { recursive: true });
+
+		const baseName = `${path.basename(sourceFile.fsPath, path.extname(sourceFile.fsPath))}_${OutputFolder.getFileTimestamp()}`;
+		const files: vscode.Uri[] = [];
+
+		for (let index = 0; index < displays.length; index++) {
+			const fileName = index === 0 ? `${baseName}.png` : `${baseName}_display${index}.png`;
+			const filePath = path.join(folder, fileName);
+			await fs.promises.writeFile(filePath, Buffer.from(displays[index], 'base64'));
+			outputChannel.appendLine(`[ScreenshotWriter] Saved ${filePath}`);
+			files.push(vscode.Uri.file(filePath));
+		}
+
+		return files;
+	}
+
+	/**
+	 * @brief Writes a video capture.
+	 *
+	 * @param videoBase64 - Base64-encoded WebM video
+	 * @param sourceFile - URI of the previewed file, used for the folder and file name
+	 * @param outputChannel - Output channel for logging
+	 * @returns URI of the written file
+	 */
+	public static async saveVideo(
+		videoBase64: string,
+		sourceFile: vscode.Uri,
+		outputChannel: vscode.OutputChannel
+	): Promise<vscode.Uri> {
+		const folder = OutputFolder.resolve('screenshotFolder', 'screenshots', sourceFile);
+		await fs.promises.mkdir(folder, { recursive: true });
+
+		const baseName = path.basename(sourceFile.fsPath, path.extname(sourceFile.fsPath));
+		const filePath = path.join(folder, `${baseName}_${OutputFolder.getFileTimestamp()}.webm`);
+		await fs.promises.writeFile(filePath, Buffer.from(videoBase64, 'base64'));
+		outputChannel.appendLine(`[ScreenshotWriter] Saved ${filePath}`);
+
+		return vscode.Uri.file(filePath);
+	}
+}
@@ -16,6 +16,14 @@ export class WebviewManager implements vscode.Disposable {
 	private panel: vscode.WebviewPanel | undefined;
 	private outputChannel: vscode.OutputChannel;
 	private onReloadCallback?: () => void | Promise<void>;
+	private readonly messageEmitter = new vscode.EventEmitter<WebviewMessage>();
+
+	/**
+	 * @brief Fires for every message received from the webview.
+	 *
+	 * The emitter outlives individual panels, so listeners stay attached across hot reloads.
+	 */
+	public readonly onDidReceiveMessage: vscode.Event<WebviewMessage> = this.messageEmitter.event;
 
 	/**
 	 * @constructor
@@ -148,6 +156,8 @@ export class WebviewManager implements vscode.Disposable {
 				}
 				break;
 		}
+
+		this.messageEmitter.fire(message);
 	}
 
 	/**
@@ -169,5 +179,6 @@ export class WebviewManager implements vscode.Disposable {
 			this.panel.dispose();
 			this.panel = undefined;
 		}
+		this.messageEmitter.dispose();
 	}
 }
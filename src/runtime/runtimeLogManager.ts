@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { RuntimeLogEntry, RuntimeLogLevel, RuntimeLogStream } from '../types';
+
+/**
+ * @class RuntimeLogManager
+ * @brief Shows stdout/stderr of the running WASM module in a dedicated output channel.
+ *
+ * Everything the preview prints at runtime (printf calls from the generated main and user
+ * code, LV_LOG_* output with LV_LOG_PRINTF enabled) is forwarded by the webview and written
+ * to the "LVGL Runtime" output channel. Lines are tagged with the LVGL log level parsed from
+ * the `[Trace]`/`[Info]`/`[Warn]`/`[Error]`/`[User]` prefix and filtered by the
+ * `lvglPreview.runtimeLogLevel` setting.
+ *
+ * Warnings and errors whose `file:line` location points at one of the user's source files are
+ * also reported in a separate "LVGL runtime" diagnostic collection, which is cleared on each reload.
+ *
+ * @implements vscode.Disposable
+ */
+export class RuntimeLogManager implements vscode.Disposable {
+	private static readonly LEVEL_ORDER: RuntimeLogLevel[] = ['trace', 'info', 'warn', 'error', 'user'];
+	private static readonly LVGL_PREFIXES: Record<string, RuntimeLogLevel> = {
+		Trace: 'trace',
+		Info: 'info',
+		Warn: 'warn',
+		Error: 'error',
+		User: 'user',
+	};
+
+	private readonly runtimeChannel: vscode.OutputChannel;
+	private readonly diagnosticCollection: vscode.DiagnosticCollection;
+	private diagnostics: Map<string, vscode.Diagnostic[]> = new Map();
+	private userFiles: string[] = [];
+	private userFileMatches: Map<string, string | undefined> = new Map();
+
+	/**
+	 * @constructor
+	 * @brief Creates the "LVGL Runtime" output channel and diagnostic collection.
+	 */
+	constructor() {
+		this.runtimeChannel = vscode.window.createOutputChannel('LVGL Runtime');
+		this.diagnosticCollection = vscode.languages.createDiagnosticCollection('lvgl-runtime');
+	}
+
+	/**
+	 * @brief Handles a line of runtime output forwarded by the webview.
+	 *
+	 * @param stream The stream the line was written to (stdout or stderr)
+	 * @param text The raw line as printed by the WASM module
+	 */
+	public appendLog(stream: RuntimeLogStream, text: string): void {
+		const entry = RuntimeLogManager.parseLine(stream, text);
+
+		if (entry.level === 'warn' || entry.level === 'error') {
+			this.addDiagnostic(entry);
+		}
+
+		if (!this.shouldShow(entry.level)) {
+			return;
+		}
+
+		const time = new Date().toLocaleTimeString();
+		const location = entry.file ? ` (${entry.file}:${entry.line})` : '';
+		this.runtimeChannel.appendLine(`[${time}] [${entry.level.toUpperCase()}] ${entry.message}${location}`);
+	}
+
+	/**
+	 * @brief Prepares the channel and diagnostics for a freshly loaded module.
+	 *
+	 * Clears the runtime diagnostics of the previous run. Clears the channel if
+	 * `lvglPreview.clearRuntimeLogOnReload` is enabled, otherwise writes a separator
+	 * so output of consecutive runs can be told apart.
+	 *
+	 * @param userFiles Absolute paths of the user's source files (main file and dependencies)
+	 */
+	public onReload(userFiles: string[]): void {
+		this.userFiles = userFiles;
+		this.userFileMatches.clear();
+		this.clearDiagnostics();
+
+		const config = vscode.workspace.getConfiguration('lvglPreview');
+		if (config.get<boolean>('clearRuntimeLogOnReload', true)) {
+			this.runtimeChannel.clear();
+		} else {
+			this.runtimeChannel.appendLine('-'.repeat(60));
+		}
+	}
+
+	/**
+	 * @brief Parses a runtime output line into a log entry.
+	 *
+	 * LVGL prints log lines as `[Warn]\t(1.234, +5)\t lv_func: message ...`, followed by the
+	 * location as `file.c:123` (v9) or `\t(in file.c line #123)` (v8). Lines without an LVGL
+	 * prefix are plain printf output and are tagged as info (stdout) or error (stderr).
+	 *
+	 * @param stream The stream the line was written to
+	 * @param text The raw line
+	 * @returns The parsed log entry
+	 */
+	public static parseLine(stream: RuntimeLogStream, text: string): RuntimeLogEntry {
+		const match = text.match(/^\[(Trace|Info|Warn|Error|User)]\s*(?:\(\d+\.\d+, \+\d+\)\s*)?(.*)$/);
+
+		if (match) {
+			const entry: RuntimeLogEntry = {
+				level: this.LVGL_PREFIXES[match[1]],
+				stream,
+				message: match[2].trim(),
+			};
+
+			// Location suffix: "file.c:123" (v9) or "(in file.c line #123)" (v8)
+			const location =
+				entry.message.match(/\s*\(in (\S+) line #(\d+)\)$/) ?? entry.message.match(/\s+(\S+\.\w+):(\d+)$/);
+			if (location) {
+				entry.file = location[1];
+				entry.line = parseInt(location[2], 10);
+				entry.message = entry.message.substring(0, location.index).trim();
+			}
+
+			const func = entry.message.match(/^(\w+):\s*/);
+			if (func) {
+				entry.func = func[1];
+				entry.message = entry.message.substring(func[0].length);
+			}
+
+			return entry;
+		}
+
+		return {
+			level: stream === 'stderr' ? 'error' : 'info',
+			stream,
+			message: text,
+		};
+	}
+
+	/**
+	 * @brief Reports a log entry as a diagnostic if it points at one of the user's files.
+	 *
+	 * The entry is matched against the main file and dependencies by path (see findUserFile()).
+	 * Repeated messages for the same line (e.g. from a timer) are reported once.
+	 *
+	 * @param entry Parsed warning or error entry
+	 */
+	private addDiagnostic(entry: RuntimeLogEntry): void {
+		if (!entry.file || !entry.line) {
+			return;
+		}
+
+		const key = `${entry.file}:${entry.func ?? ''}`;
+		if (!this.userFileMatches.has(key)) {
+			this.userFileMatches.set(key, this.findUserFile(entry.file, entry.func));
+		}
+		const userFile = this.userFileMatches.get(key);
+		if (!userFile) {
+			return;
+		}
+
+		const message = entry.func ? `${entry.func}: ${entry.message}` : entry.message;
+		const diagnostics = this.diagnostics.get(userFile) ?? [];
+		const line = entry.line - 1;
+
+		if (diagnostics.some((d) => d.range.start.line === line && d.message === message)) {
+			return;
+		}
+
+		const severity = entry.level === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+		const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), message, severity);
+		diagnostic.source = 'LVGL runtime';
+
+		diagnostics.push(diagnostic);
+		this.diagnostics.set(userFile, diagnostics);
+		this.diagnosticCollection.set(vscode.Uri.file(userFile), diagnostics);
+	}
+
+	/**
+	 * @brief Finds the user file a logged location refers to.
+	 *
+	 * A logged path is matched against the end of the user files' paths. LVGL strips the
+	 * directories from the file names it logs, so when several user files share the logged base
+	 * name, the one that defines the logging function is used. Without a unique match, no file
+	 * is returned rather than a wrong one.
+	 *
+	 * @param file File name or path from the log entry
+	 * @param func Function that logged the entry, if known
+	 * @returns Absolute path of the user file, or undefined
+	 */
+	private findUserFile(file: string, func?: string): string | undefined {
+		const logged = path.normalize(file);
+		const candidates = path.isAbsolute(logged)
+			? this.userFiles.filter((userFile) => path.resolve(userFile) === path.resolve(logged))
+			: this.userFiles.filter((userFile) => {
+					const normalized = path.normalize(userFile);
+					return normalized === logged || normalized.endsWith(path.sep + logged);
+				});
+
+		if (candidates.length <= 1 || !func) {
+			return candidates.length === 1 ? candidates[0] : undefined;
+		}
+
+		const definition = new RegExp(`^[\\w\\s*]*\\b${func}\\s*\\([^;]*?\\)\\s*\\{`, 'm');
+		const defining = candidates.filter((candidate) => {
+			try {
+				return definition.test(fs.readFileSync(candidate, 'utf-8'));
+			} catch {
+				return false;
+			}
+		});
+		return defining.length === 1 ? defining[0] : undefined;
+	}
+
+	/**
+	 * @brief Clears all runtime diagnostics from the Problems panel.
+	 */
+	public clearDiagnostics(): void {
+		this.diagnostics.clear();
+		this.diagnosticCollection.clear();
+	}
+
+	/**
+	 * @brief Checks a log level against the configured minimum level.
+	 *
+	 * @param level Level of the log entry
+	 * @returns true if the entry should be written to the channel
+	 */
+	private shouldShow(level: RuntimeLogLevel): boolean {
+		const config = vscode.workspace.getConfiguration('lvglPreview');
+		const minLevel = config.get<RuntimeLogLevel>('runtimeLogLevel', 'info');
+		const order = RuntimeLogManager.LEVEL_ORDER;
+
+		return order.indexOf(level) >= order.indexOf(minLevel);
+	}
+
+	/**
+	 * @brief Disposes the runtime output channel and diagnostic collection.
+	 */
+	public dispose(): void {
+		this.runtimeChannel.dispose();
+		this.diagnosticCollection.dispose();
+	}
+}
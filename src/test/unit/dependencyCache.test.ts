@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DependencyCache, CompilationSettings } from '../../cache/dependencyCache';
+
+suite('DependencyCache', () => {
+	const settings: CompilationSettings = {
+		lvglVersion: '9.2.0',
+		optimization: '-O1',
+		lvglMemorySize: 256,
+		wasmMemorySize: 128,
+		includePaths: [],
+		defines: [],
+		colorDepth: 32,
+	};
+	const outputChannel = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+
+	let storageDir: string;
+	let cacheDir: string;
+
+	setup(() => {
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lvgl-preview-test-'));
+		cacheDir = path.join(storageDir, 'dependency-cache', 'project');
+		fs.mkdirSync(cacheDir, { recursive: true });
+	});
+
+	teardown(() => {
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * @brief Writes version 1 metadata with a `<basename>.o` object per entry.
+	 *
+	 * @param sources Source paths of the entries
+	 */
+	function writeV1Metadata(sources: string[]): void {
+		const entries = sources.map((sourcePath) => {
+			const objectPath = path.join(cacheDir, `${path.basename(sourcePath, '.c')}.o`);
+			fs.writeFileSync(objectPath, sourcePath);
+			return { sourcePath, objectPath, sourceHash: 'hash', lastModified: 0 };
+		});
+		fs.writeFileSync(path.join(cacheDir, 'metadata.json'), JSON.stringify(entries));
+	}
+
+	/**
+	 * @brief Creates a cache for the test project, which loads its metadata.
+	 */
+	function createCache(): DependencyCache {
+		const context = { globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext;
+		return new DependencyCache(context, 'project', outputChannel, settings);
+	}
+
+	test('discards version 1 metadata and its objects', () => {
+		const uiScreen = path.resolve('/project/ui/screen.c');
+		const driversScreen = path.resolve('/project/drivers/screen.c');
+		const button = path.resolve('/project/ui/button.c');
+		writeV1Metadata([uiScreen, driversScreen, button]);
+
+		const cache = createCache();
+
+		const metadata = JSON.parse(fs.readFileSync(path.join(cacheDir, 'metadata.json'), 'utf-8'));
+		assert.deepStrictEqual(metadata, { version: 2, entries: [] });
+		assert.strictEqual(cache.getCachedObject(button), null);
+		assert.deepStrictEqual(fs.readdirSync(cacheDir), ['metadata.json']);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Module from 'module';
+import type * as vscode from 'vscode';
+import type { EmccWrapper as EmccWrapperType } from '../../compiler/emccWrapper';
+
+suite('EmccWrapper', () => {
+	const outputChannel = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+
+	let EmccWrapper: typeof EmccWrapperType;
+	let storageDir: string;
+
+	suiteSetup(async () => {
+		// EmsdkInstaller uses the vscode API at runtime, which only exists in the extension host.
+		// compileToObjects does not reach those calls, so an empty module stands in for it.
+		const loader = Module as unknown as { _resolveFilename: (request: string, ...args: unknown[]) => string };
+		const resolveFilename = loader._resolveFilename;
+		loader._resolveFilename = (request, ...args) =>
+			request === 'vscode' ? 'vscode' : resolveFilename.call(Module, request, ...args);
+		require.cache.vscode = { id: 'vscode', loaded: true, exports: {} } as NodeJS.Module;
+
+		try {
+			({ EmccWrapper } = await import('../../compiler/emccWrapper'));
+		} finally {
+			loader._resolveFilename = resolveFilename;
+		}
+	});
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		// A fake emcc that writes the path of the compiled source into the object file
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lvgl-preview-test-'));
+		const emccDir = path.join(storageDir, 'emsdk', 'emsdk-3.1.50', 'upstream', 'emscripten');
+		fs.mkdirSync(emccDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(emccDir, 'emcc'),
+			[
+				`#!${process.execPath}`,
+				'const args = process.argv.slice(2);',
+				"require('fs').writeFileSync(args[args.indexOf('-o') + 1], args[args.indexOf('-c') + 1]);",
+			].join('\n'),
+			{ mode: 0o755 }
+		);
+	});
+
+	teardown(() => {
+		if (storageDir) {
+			fs.rmSync(storageDir, { recursive: true, force: true });
+		}
+	});
+
+	test('compiles sources with the same base name to distinct objects', async () => {
+		const context = { globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext;
+		const outputDir = path.join(storageDir, 'objects');
+		fs.mkdirSync(outputDir);
+		const sources = [path.resolve('/project/ui/screen.c'), path.resolve('/project/drivers/screen.c')];
+
+		const results = await new EmccWrapper(context, outputChannel).compileToObjects(sources, outputDir, []);
+
+		assert.deepStrictEqual(
+			results.map((result) => result.success),
+			[true, true]
+		);
+		assert.notStrictEqual(results[0].objectFile, results[1].objectFile);
+		assert.deepStrictEqual(
+			results.map((result) => fs.readFileSync(result.objectFile, 'utf-8')),
+			sources
+		);
+	});
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ObjectNaming } from '../../utils/objectNaming';
+
+suite('ObjectNaming', () => {
+	const project = path.resolve('/project');
+
+	test('gives sources with the same base name different names', () => {
+		const ui = ObjectNaming.getObjectFileName(path.join(project, 'ui', 'screen.c'));
+		const drivers = ObjectNaming.getObjectFileName(path.join(project, 'drivers', 'screen.c'));
+
+		assert.notStrictEqual(ui, drivers);
+		assert.match(ui, /^screen_[0-9a-f]{8}\.o$/);
+		assert.match(drivers, /^screen_[0-9a-f]{8}\.o$/);
+	});
+
+	test('gives the same source a stable name', () => {
+		const source = path.join(project, 'ui', 'screen.c');
+
+		assert.strictEqual(ObjectNaming.getObjectFileName(source), ObjectNaming.getObjectFileName(source));
+		assert.strictEqual(
+			ObjectNaming.getObjectFileName(source),
+			ObjectNaming.getObjectFileName(path.join(project, 'ui', '..', 'ui', 'screen.c'))
+		);
+	});
+
+	test('uses the given extension', () => {
+		const source = path.join(project, 'ui', 'screen.c');
+
+		assert.strictEqual(
+			ObjectNaming.getObjectFileName(source, '.d'),
+			ObjectNaming.getObjectFileName(source).replace(/\.o$/, '.d')
+		);
+	});
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { PngCodec } from '../../visualTest/pngCodec';
+
+suite('PngCodec', () => {
+	/**
+	 * @brief Builds a non-interlaced 8-bit PNG from already filtered rows.
+	 *
+	 * @param width Width in pixels
+	 * @param colorType PNG colour type (0 greyscale, 2 RGB, 6 RGBA)
+	 * @param rows Filter type and filtered bytes of each row
+	 */
+	function createPng(width: number, colorType: number, rows: { filter: number; bytes: number[] }[]): Buffer {
+		const chunk = (type: string, data: Buffer) => {
+			const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+			const length = Buffer.alloc(4);
+			length.writeUInt32BE(data.length);
+			const crc = Buffer.alloc(4);
+			crc.writeUInt32BE(zlib.crc32(body));
+			return Buffer.concat([length, body, crc]);
+		};
+
+		const header = Buffer.alloc(13);
+		header.writeUInt32BE(width, 0);
+		header.writeUInt32BE(rows.length, 4);
+		header[8] = 8;
+		header[9] = colorType;
+		const raw = Buffer.from(rows.flatMap((row) => [row.filter, ...row.bytes]));
+
+		return Buffer.concat([
+			Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+			chunk('IHDR', header),
+			chunk('IDAT', zlib.deflateSync(raw)),
+			chunk('IEND', Buffer.alloc(0)),
+		]);
+	}
+
+	test('decodes what it encodes', () => {
+		const image = {
+			width: 3,
+			height: 2,
+			data: new Uint8Array([
+				255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 1, 2, 3, 4, 250, 251, 252, 253, 127, 128, 129, 130,
+			]),
+		};
+
+		assert.deepStrictEqual(PngCodec.decode(PngCodec.encode(image)), image);
+	});
+
+	test('decodes greyscale and RGB as opaque RGBA', () => {
+		const grey = PngCodec.decode(createPng(2, 0, [{ filter: 0, bytes: [7, 200] }]));
+		const rgb = PngCodec.decode(createPng(2, 2, [{ filter: 0, bytes: [1, 2, 3, 4, 5, 6] }]));
+
+		assert.deepStrictEqual(Array.from(grey.data), [7, 7, 7, 255, 200, 200, 200, 255]);
+		assert.deepStrictEqual(Array.from(rgb.data), [1, 2, 3, 255, 4, 5, 6, 255]);
+	});
+
+	test('reverses the sub, up, average and Paeth filters', () => {
+		const png = createPng(2, 0, [
+			{ filter: 1, bytes: [200, 100] },
+			{ filter: 2, bytes: [1, 2] },
+			{ filter: 3, bytes: [4, 6] },
+			{ filter: 4, bytes: [1, 1] },
+		]);
+
+		const image = PngCodec.decode(png);
+
+		assert.deepStrictEqual(
+			Array.from(image.data.filter((_, i) => i % 4 === 0)),
+			[200, 44, 201, 46, 104, 81, 105, 82]
+		);
+	});
+
+	test('rejects an unknown filter type', () => {
+		assert.throws(() => PngCodec.decode(createPng(1, 0, [{ filter: 5, bytes: [0] }])), /Invalid PNG filter type 5/);
+	});
+
+	test('writes and checks chunk CRCs', () => {
+		const png = PngCodec.encode({ width: 1, height: 1, data: new Uint8Array([1, 2, 3, 4]) });
+
+		for (let offset = 8; offset < png.length; offset += 12 + png.readUInt32BE(offset)) {
+			const length = png.readUInt32BE(offset);
+			assert.strictEqual(
+				png.readUInt32BE(offset + 8 + length),
+				zlib.crc32(png.subarray(offset + 4, offset + 8 + length))
+			);
+		}
+
+		// Flip a bit in the IHDR width
+		png[16] ^= 1;
+		assert.throws(() => PngCodec.decode(png), /PNG chunk IHDR has an invalid CRC/);
+	});
+});
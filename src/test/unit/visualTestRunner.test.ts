@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PngCodec } from '../../visualTest/pngCodec';
+import { VisualTestRunner } from '../../visualTest/visualTestRunner';
+import { VisualTestManifest } from '../../types';
+
+suite('VisualTestRunner', () => {
+	const log = () => undefined;
+
+	let testDir: string;
+
+	setup(() => {
+		testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lvgl-preview-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(testDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * @brief Writes a fake headless module that renders a 2x1 image and returns its manifest.
+	 *
+	 * @param pixels RGBA bytes of the rendered image
+	 * @param settings Comparison settings of the manifest
+	 */
+	function createManifest(
+		pixels: number[],
+		settings: Partial<Pick<VisualTestManifest, 'tolerance' | 'maxDiffPixels'>> = {}
+	): VisualTestManifest {
+		const jsPath = path.join(testDir, 'module.js');
+		const wasmPath = path.join(testDir, 'module.wasm');
+		fs.writeFileSync(
+			jsPath,
+			[
+				'Module.HEAPU8 = new Uint8Array(16);',
+				`Module.HEAPU8.set(${JSON.stringify(pixels)}, 8);`,
+				'const sizes = { lvgl_live_preview_headless_width: 2, lvgl_live_preview_headless_height: 1 };',
+				'Module.ccall = (name) => sizes[name] ?? 8;',
+				'Module.postRun[0]();',
+			].join('\n')
+		);
+		fs.writeFileSync(wasmPath, '');
+
+		return {
+			jsPath,
+			wasmPath,
+			entries: [{ name: 'main', index: 0 }],
+			baselineDir: path.join(testDir, 'baselines'),
+			outputDir: path.join(testDir, 'results'),
+			ticks: 1,
+			tolerance: settings.tolerance ?? 0,
+			maxDiffPixels: settings.maxDiffPixels ?? 0,
+		};
+	}
+
+	/**
+	 * @brief Writes the baseline of the `main` entry point.
+	 *
+	 * @param width Width of the baseline
+	 * @param pixels RGBA bytes of the baseline
+	 */
+	function writeBaseline(width: number, pixels: number[]): void {
+		fs.mkdirSync(path.join(testDir, 'baselines'), { recursive: true });
+		fs.writeFileSync(
+			path.join(testDir, 'baselines', 'main.png'),
+			PngCodec.encode({ width, height: pixels.length / 4 / width, data: new Uint8Array(pixels) })
+		);
+	}
+
+	test('creates a missing baseline', async () => {
+		const report = await VisualTestRunner.run(createManifest([1, 2, 3, 255, 4, 5, 6, 255]), false, log);
+
+		assert.strictEqual(report.passed, true);
+		assert.strictEqual(report.results[0].status, 'created');
+		assert.deepStrictEqual(
+			Array.from(PngCodec.decode(fs.readFileSync(path.join(testDir, 'baselines', 'main.png'))).data),
+			[1, 2, 3, 255, 4, 5, 6, 255]
+		);
+	});
+
+	test('passes channel differences within the tolerance', async () => {
+		writeBaseline(2, [10, 10, 10, 255, 20, 20, 20, 255]);
+
+		const report = await VisualTestRunner.run(
+			createManifest([12, 8, 10, 255, 20, 20, 20, 255], { tolerance: 2 }),
+			false,
+			log
+		);
+
+		assert.strictEqual(report.results[0].status, 'passed');
+		assert.strictEqual(report.results[0].diffPixels, 0);
+	});
+
+	test('fails channel differences above the tolerance and writes a diff image', async () => {
+		writeBaseline(2, [10, 10, 10, 255, 20, 20, 20, 255]);
+
+		const report = await VisualTestRunner.run(
+			createManifest([13, 10, 10, 255, 20, 20, 20, 255], { tolerance: 2 }),
+			false,
+			log
+		);
+
+		const result = report.results[0];
+		assert.strictEqual(report.passed, false);
+		assert.strictEqual(result.status, 'failed');
+		assert.strictEqual(result.diffPixels, 1);
+		assert.ok(result.diffPath);
+		assert.deepStrictEqual(
+			Array.from(PngCodec.decode(fs.readFileSync(result.diffPath)).data.subarray(0, 4)),
+			[255, 0, 0, 255]
+		);
+	});
+
+	test('passes up to maxDiffPixels differing pixels', async () => {
+		writeBaseline(2, [0, 0, 0, 255, 0, 0, 0, 255]);
+
+		const onePixel = await VisualTestRunner.run(
+			createManifest([255, 0, 0, 255, 0, 0, 0, 255], { maxDiffPixels: 1 }),
+			false,
+			log
+		);
+		const twoPixels = await VisualTestRunner.run(
+			createManifest([255, 0, 0, 255, 0, 255, 0, 255], { maxDiffPixels: 1 }),
+			false,
+			log
+		);
+
+		assert.strictEqual(onePixel.results[0].status, 'passed');
+		assert.strictEqual(onePixel.results[0].diffPixels, 1);
+		assert.strictEqual(twoPixels.results[0].status, 'failed');
+		assert.strictEqual(twoPixels.results[0].diffPixels, 2);
+	});
+
+	test('fails a baseline of a different size', async () => {
+		writeBaseline(1, [0, 0, 0, 255]);
+
+		const report = await VisualTestRunner.run(createManifest([0, 0, 0, 255, 0, 0, 0, 255]), false, log);
+
+		assert.strictEqual(report.results[0].status, 'failed');
+		assert.match(report.results[0].message ?? '', /size 2x1 differs from baseline 1x1/);
+	});
+
+	test('replaces the baseline when updating', async () => {
+		writeBaseline(2, [0, 0, 0, 255, 0, 0, 0, 255]);
+
+		const report = await VisualTestRunner.run(createManifest([9, 9, 9, 255, 9, 9, 9, 255]), true, log);
+
+		assert.strictEqual(report.results[0].status, 'updated');
+		assert.deepStrictEqual(
+			Array.from(PngCodec.decode(fs.readFileSync(path.join(testDir, 'baselines', 'main.png'))).data),
+			[9, 9, 9, 255, 9, 9, 9, 255]
+		);
+	});
+});
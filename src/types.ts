@@ -4,6 +4,111 @@ export interface CompilationResult {
 	jsPath?: string;
 	errors: CompilerError[];
 	warnings: CompilerWarning[];
+	/**
+	 * Set when the build was cancelled because a newer build superseded it
+	 */
+	cancelled?: boolean;
+	/**
+	 * Screen entry points compiled into the module, in the order of the generated screen table
+	 */
+	screens?: PreviewScreen[];
+	/**
+	 * Quantisation the webview applies to show a colour depth LVGL cannot render natively here
+	 */
+	colorQuantization?: ColorQuantization;
+	/**
+	 * Additional displays compiled into the module, in the order of their display index (from 1)
+	 */
+	displays?: DisplayConfig[];
+	/**
+	 * Device frame the webview draws the main display in
+	 */
+	device?: DeviceFrame;
+}
+
+/**
+ * Rotation of the main display in degrees (lv_display_set_rotation / LV_DISP_ROT_*)
+ */
+export type DisplayRotation = 0 | 90 | 180 | 270;
+
+/**
+ * An additional display rendered next to the main display
+ */
+export interface DisplayConfig {
+	width: number;
+	height: number;
+}
+
+/**
+ * Outline of the visible display area
+ */
+export type DeviceShape = 'rectangle' | 'circle';
+
+/**
+ * Device profile from the project config describing the physical product
+ */
+export interface DeviceProfile {
+	/**
+	 * Path to a bezel image (PNG, JPEG, SVG, WebP or GIF) drawn around the display, one image pixel per display pixel
+	 */
+	bezel?: string;
+	/**
+	 * Position of the display's top-left corner in the bezel image, in image pixels
+	 */
+	screenX?: number;
+	screenY?: number;
+	/**
+	 * Outline of the display, 'circle' for round panels
+	 */
+	shape?: DeviceShape;
+	/**
+	 * Corner radius of a rectangular display in display pixels
+	 */
+	cornerRadius?: number;
+	/**
+	 * Physical pixel density of the panel, defaults to LV_DPI_DEF
+	 */
+	dpi?: number;
+}
+
+/**
+ * Device frame sent to the webview, with the bezel image inlined as a data URI
+ */
+export interface DeviceFrame {
+	bezel?: string;
+	screenX: number;
+	screenY: number;
+	shape: DeviceShape;
+	cornerRadius: number;
+	dpi: number;
+}
+
+/**
+ * Colour reduction applied to the preview canvas: RGB332 (8-bit) or black and white (1-bit)
+ */
+export type ColorQuantization = 'rgb332' | 'mono';
+
+/**
+ * An entry point that can be selected in the preview's screen dropdown
+ */
+export interface PreviewScreen {
+	/** Label shown in the dropdown */
+	name: string;
+	/** C function that builds the screen (`void fn(void)`) */
+	functionName: string;
+}
+
+/**
+ * Result of compiling a single source file to an object file
+ */
+export interface ObjectCompilationResult {
+	sourceFile: string;
+	objectFile: string;
+	success: boolean;
+	/** Headers the source file included, read from the emcc depfile (only when requested) */
+	headers?: string[];
+	errors: CompilerError[];
+	warnings: CompilerWarning[];
 }
 
 export interface CompilerError {
@@ -12,6 +117,7 @@ export interface CompilerError {
 	column: number;
 	message: string;
 	severity: 'error' | 'warning';
+	notes?: CompilerNote[];
 }
 
 export interface CompilerWarning {
@@ -19,6 +125,18 @@ export interface CompilerWarning {
 	line: number;
 	column: number;
 	message: string;
+	notes?: CompilerNote[];
+}
+
+/**
+ * Supplementary location attached to an error or warning (`note:` lines and
+ * `In file included from` chains)
+ */
+export interface CompilerNote {
+	file: string;
+	line: number;
+	column: number;
+	message: string;
 }
 
 export interface PreviewSettings {
@@ -33,13 +151,265 @@ export interface PreviewSettings {
 }
 
 export type ExtensionMessage =
-	| { type: 'loadWasm'; wasmBase64: string; jsContent: string }
+	| {
+			type: 'loadWasm';
+			wasmBase64: string;
+			jsContent: string;
+			stateBase64?: string;
+			screens?: PreviewScreen[];
+			activeScreen?: number;
+			colorQuantization?: ColorQuantization;
+			displays?: DisplayConfig[];
+	  }
 	| { type: 'showError'; message: string; errors?: CompilerError[] }
 	| { type: 'updateSettings'; settings: PreviewSettings }
+	| {
+			type: 'updateView';
+			device?: DeviceFrame;
+			monitorDpi: number;
+			zoom: string;
+			grid: boolean;
+			redraws: boolean;
+			timeScale: number;
+	  }
 	| { type: 'compiling' }
+	| { type: 'requestStateSnapshot' }
+	| { type: 'requestScreenshot' }
+	| { type: 'setRecording'; recording: boolean }
+	| { type: 'replayInput'; recording: InputRecording }
+	| { type: 'stopReplay' }
+	| { type: 'toggleVideoCapture' }
+	| { type: 'requestWidgetTree' }
+	| { type: 'highlightWidget'; id: number | null }
+	| { type: 'requestWidgetProperties'; id: number }
+	| { type: 'setWidgetProperty'; id: number; name: WidgetPropertyName; value: string }
 	| { type: 'ready' };
 
-export type WebviewMessage = { type: 'ready' } | { type: 'error'; message: string } | { type: 'reload' };
+export type WebviewMessage =
+	| { type: 'ready' }
+	| { type: 'error'; message: string }
+	| { type: 'reload' }
+	| { type: 'runtimeLog'; stream: RuntimeLogStream; text: string }
+	| { type: 'stateSnapshot'; running: boolean; stateBase64?: string; videoPending?: boolean }
+	| { type: 'screenChanged'; functionName: string | null }
+	| { type: 'viewChanged'; zoom: string; grid: boolean; redraws: boolean; timeScale: number }
+	| { type: 'screenshot'; displays: string[] }
+	| { type: 'toggleRecording' }
+	| { type: 'inputEvent'; event: RecordedInputEvent }
+	| { type: 'replayFinished'; events: number }
+	| { type: 'videoCapture'; videoBase64: string; frames: number }
+	| { type: 'widgetTree'; screens: WidgetTreeScreen[] }
+	| { type: 'openSource'; location: SourceLocation | null }
+	| { type: 'widgetProperties'; id: number; properties: WidgetProperties | null }
+	| { type: 'memoryUsage'; usage: MemoryUsage }
+	| { type: 'performanceStats'; stats: PerformanceStats | null };
+
+/**
+ * Where an object alt-clicked in the preview was created, recorded with `lvglPreview.sourceMapping`
+ */
+export interface SourceLocation {
+	/**
+	 * File as the compiler saw it (`__FILE__`)
+	 */
+	file: string;
+	line: number;
+	/**
+	 * Widget class of the object, as in the widget tree
+	 */
+	class: string;
+}
+
+/**
+ * An LVGL object in the widget tree, as serialised by the generated main.c
+ */
+export interface WidgetTreeNode {
+	/**
+	 * Address of the object, used to find it again in the running module
+	 */
+	id: number;
+	/**
+	 * Widget class without the `lv_` prefix and `_class` suffix, `unknown` for custom classes
+	 */
+	class: string;
+	/**
+	 * Absolute coordinates and size in display pixels
+	 */
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+	/**
+	 * Set LV_OBJ_FLAG_* flags in lower case, without the prefix
+	 */
+	flags: string[];
+	/**
+	 * Set LV_STATE_* bits in lower case, without the prefix
+	 */
+	state: string[];
+	childCount: number;
+	children: WidgetTreeNode[];
+}
+
+/**
+ * The active screen of a display in the widget tree
+ */
+export interface WidgetTreeScreen {
+	/**
+	 * 0 for the main display, 1..n for the additional displays
+	 */
+	display: number;
+	root: WidgetTreeNode;
+}
+
+/**
+ * Style properties the property inspector shows and sets on a live object
+ */
+export type WidgetPropertyName =
+	| 'x'
+	| 'y'
+	| 'width'
+	| 'height'
+	| 'padTop'
+	| 'padBottom'
+	| 'padLeft'
+	| 'padRight'
+	| 'radius'
+	| 'bgColor'
+	| 'bgOpa'
+	| 'textColor'
+	| 'textFont';
+
+/**
+ * Style properties of an object, as read by the generated main.c
+ */
+export interface WidgetProperties {
+	/**
+	 * Widget class, as in the widget tree
+	 */
+	class: string;
+	/**
+	 * C expressions of the built-in fonts compiled into LVGL, for example `&lv_font_montserrat_14`
+	 */
+	fonts: string[];
+	/**
+	 * Values of the main part in the form they are entered: pixels, `50%` or `content` for
+	 * positions and sizes, `circle` for a round radius, `RRGGBB` for colours, a font from `fonts`
+	 * (empty for other fonts)
+	 */
+	values: Record<WidgetPropertyName, string>;
+}
+
+/**
+ * Memory usage of the running module, sizes in bytes
+ */
+export interface MemoryUsage {
+	/**
+	 * Size of LVGL's heap (LV_MEM_SIZE), 0 if LVGL does not use its built-in allocator
+	 */
+	total: number;
+	free: number;
+	/**
+	 * Largest free block, the biggest allocation that can still succeed
+	 */
+	freeBiggest: number;
+	/**
+	 * Peak usage of LVGL's heap since the module started
+	 */
+	maxUsed: number;
+	usedPct: number;
+	fragPct: number;
+	/**
+	 * End of the WASM heap, which holds LVGL's heap as well as malloc() of user code
+	 */
+	wasmUsed: number;
+	/**
+	 * Current size of the WASM memory
+	 */
+	wasmTotal: number;
+}
+
+/**
+ * Frame timing of the main display over one polling interval in performance mode. Only frames
+ * that redrew something are counted.
+ */
+export interface PerformanceStats {
+	frames: number;
+	/**
+	 * Total render time of the frames in milliseconds, including layout
+	 */
+	renderMs: number;
+	maxRenderMs: number;
+	/**
+	 * Total pixels redrawn by the frames
+	 */
+	areaPx: number;
+	/**
+	 * Pixels of the main display
+	 */
+	displayPx: number;
+	/**
+	 * Real time the interval covers in milliseconds
+	 */
+	elapsedMs: number;
+}
+
+/**
+ * An input event recorded from the preview. `tick` is the LVGL tick in milliseconds since the
+ * recording started; pointer coordinates are display pixels.
+ */
+export type RecordedInputEvent =
+	| { tick: number; type: 'pointer'; display: number; x: number; y: number; pressed: boolean }
+	| { tick: number; type: 'wheel'; deltaY: number; deltaMode: number }
+	| {
+			tick: number;
+			type: 'key';
+			action: 'down' | 'up' | 'press';
+			key: string;
+			code: string;
+			keyCode: number;
+			charCode: number;
+	  };
+
+/**
+ * An input recording as saved to a JSON file
+ */
+export interface InputRecording {
+	/**
+	 * Version of the file format
+	 */
+	version: 1;
+	/**
+	 * Name of the file that was previewed while recording
+	 */
+	source?: string;
+	/**
+	 * Events ordered by tick
+	 */
+	events: RecordedInputEvent[];
+}
+
+/**
+ * Output stream of the WASM runtime a log line was written to
+ */
+export type RuntimeLogStream = 'stdout' | 'stderr';
+
+/**
+ * LVGL log levels, ordered from most to least verbose (matches LV_LOG_LEVEL_*)
+ */
+export type RuntimeLogLevel = 'trace' | 'info' | 'warn' | 'error' | 'user';
+
+/**
+ * A single line of runtime output after LVGL log prefix parsing
+ */
+export interface RuntimeLogEntry {
+	level: RuntimeLogLevel;
+	stream: RuntimeLogStream;
+	message: string;
+	/** Source file name reported by LV_LOG_* (LVGL only prints the base name) */
+	file?: string;
+	line?: number;
+	func?: string;
+}
 
 export type PreviewStatus = 'idle' | 'initializing' | 'compiling' | 'running' | 'error';
 
@@ -66,6 +436,38 @@ export interface LvglProjectConfig {
 	 * Global C preprocessor defines to add during compilation
 	 */
 	defines?: string[];
+
+	/**
+	 * Functions (`void fn(void)`) offered in the preview's screen selector. When omitted, functions
+	 * named lvgl_live_preview_screen_<name> are discovered in the main file and dependencies
+	 */
+	screens?: string[];
+
+	/**
+	 * Path to the project's own lv_conf.h, used instead of the generated configuration.
+	 * The preview's SDL, tick and memory settings are forced on top of it
+	 */
+	lvConf?: string;
+
+	/**
+	 * Rotation of the main display in degrees (0, 90, 180 or 270)
+	 */
+	rotation?: DisplayRotation;
+
+	/**
+	 * Additional displays, available to user code through lvgl_live_preview_get_display(1..n)
+	 */
+	displays?: DisplayConfig[];
+
+	/**
+	 * Device profile the preview is framed in (bezel, display shape and physical DPI)
+	 */
+	device?: DeviceProfile;
+
+	/**
+	 * Settings of the visual regression tests
+	 */
+	visualTest?: VisualTestConfig;
 }
 
 /**
@@ -76,5 +478,88 @@ export interface ResolvedProjectConfig {
 	dependencies: string[];
 	includePaths: string[];
 	defines: string[];
+	screens?: string[];
+	lvConf?: string;
+	rotation: DisplayRotation;
+	displays: DisplayConfig[];
+	device?: DeviceProfile;
+	visualTest?: VisualTestConfig;
 	configFileDir: string;
 }
+
+/**
+ * Visual regression test settings from the project config
+ */
+export interface VisualTestConfig {
+	/**
+	 * Folder with the baseline PNGs, committed with the project (default: visual-baselines)
+	 */
+	baselines?: string;
+	/**
+	 * Folder the rendered images, diff images and report are written to (default: visual-test-results)
+	 */
+	output?: string;
+	/**
+	 * Number of 5 ms timer handler steps to run before an entry point is captured (default: 100)
+	 */
+	ticks?: number;
+	/**
+	 * Per-channel colour difference that still counts as equal (default: 0)
+	 */
+	tolerance?: number;
+	/**
+	 * Number of differing pixels a test may have and still pass (default: 0)
+	 */
+	maxDiffPixels?: number;
+}
+
+/**
+ * An entry point rendered by the visual tests
+ */
+export interface VisualTestEntry {
+	/**
+	 * Name of the baseline image, without extension
+	 */
+	name: string;
+	/**
+	 * Index in the screen table, -1 for lvgl_live_preview_init()
+	 */
+	index: number;
+}
+
+/**
+ * Everything the visual test runner needs to run a built headless module, passed to its child process as a file
+ */
+export interface VisualTestManifest {
+	jsPath: string;
+	wasmPath: string;
+	entries: VisualTestEntry[];
+	baselineDir: string;
+	outputDir: string;
+	ticks: number;
+	tolerance: number;
+	maxDiffPixels: number;
+}
+
+/**
+ * Outcome of one visual test
+ */
+export type VisualTestStatus = 'passed' | 'failed' | 'created' | 'updated' | 'error';
+
+export interface VisualTestCaseResult {
+	name: string;
+	status: VisualTestStatus;
+	baselinePath: string;
+	actualPath?: string;
+	diffPath?: string;
+	diffPixels?: number;
+	message?: string;
+}
+
+/**
+ * Result of a visual test run; the run passes when no test failed or errored
+ */
+export interface VisualTestReport {
+	passed: boolean;
+	results: VisualTestCaseResult[];
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { MemoryUsage } from '../types';
+
+/**
+ * @class MemoryMonitorManager
+ * @brief Shows the LVGL heap usage of the running preview in the status bar.
+ *
+ * The item shows how much of LV_MEM_SIZE is in use, with free memory, the largest free block,
+ * fragmentation, the peak and the WASM memory in its tooltip. When usage reaches
+ * `lvglPreview.memoryWarningThreshold` percent, the item turns to the warning colour and a
+ * warning is shown once until usage drops below the threshold again.
+ *
+ * If LVGL does not use its built-in allocator, only the WASM memory is shown.
+ *
+ * @implements {vscode.Disposable}
+ */
+export class MemoryMonitorManager implements vscode.Disposable {
+	private readonly statusBarItem: vscode.StatusBarItem;
+	private warned = false;
+
+	/**
+	 * @brief Creates the status bar item, hidden until the first usage arrives.
+	 */
+	constructor() {
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+		this.statusBarItem.name = 'LVGL Memory';
+		this.statusBarItem.command = {
+			command: 'workbench.action.openSettings',
+			title: 'Open Memory Settings',
+			arguments: ['lvglPreview.lvglMemorySize'],
+		};
+	}
+
+	/**
+	 * @brief Shows new memory usage.
+	 *
+	 * @param usage - Usage read from the running module, null to hide the item when the preview stops
+	 */
+	public update(usage: MemoryUsage | null): void {
+		if (!usage) {
+			this.statusBarItem.hide();
+			this.warned = false;
+			return;
+		}
+
+		const size = MemoryMonitorManager.formatSize;
+		const wasm = `${size(usage.wasmUsed)} of ${size(usage.wasmTotal)}`;
+		if (usage.total === 0) {
+			this.statusBarItem.text = `$(pulse) WASM ${size(usage.wasmUsed)}`;
+			this.statusBarItem.tooltip = `LVGL does not use its built-in allocator\nWASM heap: ${wasm}`;
+			this.statusBarItem.backgroundColor = undefined;
+			this.statusBarItem.show();
+			return;
+		}
+
+		const used = usage.total - usage.free;
+		const heap = `${size(used)} of ${size(usage.total)}`;
+		const threshold = vscode.workspace.getConfiguration('lvglPreview').get<number>('memoryWarningThreshold', 80);
+		const exceeded = threshold > 0 && usage.usedPct >= threshold;
+
+		this.statusBarItem.text = `$(pulse) LVGL ${usage.usedPct}% (${heap})`;
+		this.statusBarItem.tooltip = [
+			`LVGL heap (LV_MEM_SIZE): ${size(usage.total)}`,
+			`Used: ${size(used)} (${usage.usedPct}%)`,
+			`Free: ${size(usage.free)}`,
+			`Largest free block: ${size(usage.freeBiggest)}`,
+			`Fragmentation: ${usage.fragPct}%`,
+			`Peak: ${size(Math.max(usage.maxUsed, used))}`,
+			`WASM heap: ${wasm}`,
+		].join('\n');
+		this.statusBarItem.backgroundColor = exceeded
+			? new vscode.ThemeColor('statusBarItem.warningBackground')
+			: undefined;
+		this.statusBarItem.show();
+
+		if (exceeded && !this.warned) {
+			vscode.window.showWarningMessage(`LVGL heap usage is at ${usage.usedPct}% of LV_MEM_SIZE (${heap})`);
+		}
+		this.warned = exceeded;
+	}
+
+	/**
+	 * @brief Formats a size in bytes for display.
+	 *
+	 * @param bytes - The size
+	 * @returns The size in B, KB or MB
+	 */
+	private static formatSize(bytes: number): string {
+		if (bytes < 1024) {
+			return `${bytes} B`;
+		}
+		if (bytes < 1024 * 1024) {
+			return `${(bytes / 1024).toFixed(1)} KB`;
+		}
+		return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	}
+
+	/**
+	 * @brief Disposes the status bar item.
+	 */
+	public dispose(): void {
+		this.statusBarItem.dispose();
+	}
+}
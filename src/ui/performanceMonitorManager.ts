@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { PerformanceStats } from '../types';
+
+/**
+ * @class PerformanceMonitorManager
+ * @brief Shows the frame timing of the preview's main display in the status bar in performance mode.
+ *
+ * The webview reports the frames rendered in each one-second interval. The item shows the
+ * average FPS and render time over the last few intervals, with the peak render time and the
+ * refreshed area in its tooltip. Clicking it turns performance mode off.
+ *
+ * @implements {vscode.Disposable}
+ */
+export class PerformanceMonitorManager implements vscode.Disposable {
+	/** Number of intervals the rolling average covers */
+	private static readonly WINDOW_SIZE = 5;
+
+	private readonly statusBarItem: vscode.StatusBarItem;
+	private samples: PerformanceStats[] = [];
+
+	/**
+	 * @brief Creates the status bar item, hidden until the first frame timing arrives.
+	 */
+	constructor() {
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+		this.statusBarItem.name = 'LVGL Performance';
+		this.statusBarItem.command = 'lvgl-preview.togglePerformanceMode';
+	}
+
+	/**
+	 * @brief Adds the frame timing of an interval to the rolling average.
+	 *
+	 * @param stats - Frame timing read from the running module, null to hide the item
+	 */
+	public update(stats: PerformanceStats | null): void {
+		if (!stats) {
+			this.samples = [];
+			this.statusBarItem.hide();
+			return;
+		}
+
+		this.samples.push(stats);
+		if (this.samples.length > PerformanceMonitorManager.WINDOW_SIZE) {
+			this.samples.shift();
+		}
+
+		const total = this.samples.reduce(
+			(sum, sample) => ({
+				frames: sum.frames + sample.frames,
+				renderMs: sum.renderMs + sample.renderMs,
+				maxRenderMs: Math.max(sum.maxRenderMs, sample.maxRenderMs),
+				areaPx: sum.areaPx + sample.areaPx,
+				elapsedMs: sum.elapsedMs + sample.elapsedMs,
+			}),
+			{ frames: 0, renderMs: 0, maxRenderMs: 0, areaPx: 0, elapsedMs: 0 }
+		);
+		const fps = total.elapsedMs > 0 ? (total.frames * 1000) / total.elapsedMs : 0;
+		const renderMs = total.frames > 0 ? total.renderMs / total.frames : 0;
+		const areaPx = total.frames > 0 ? Math.round(total.areaPx / total.frames) : 0;
+		const areaPct = stats.displayPx > 0 ? Math.round((areaPx * 100) / stats.displayPx) : 0;
+		const seconds = Math.round(total.elapsedMs / 1000);
+
+		this.statusBarItem.text = `$(dashboard) ${fps.toFixed(1)} FPS, ${renderMs.toFixed(1)} ms`;
+		this.statusBarItem.tooltip = [
+			`Main display, average of the last ${seconds} s:`,
+			`Frames per second: ${fps.toFixed(1)}`,
+			`Render time: ${renderMs.toFixed(2)} ms (peak ${total.maxRenderMs.toFixed(2)} ms)`,
+			`Refreshed area: ${areaPx} px per frame (${areaPct}% of the display)`,
+			'',
+			'Click to turn performance mode off',
+		].join('\n');
+		this.statusBarItem.show();
+	}
+
+	/**
+	 * @brief Disposes the status bar item.
+	 */
+	public dispose(): void {
+		this.statusBarItem.dispose();
+	}
+}
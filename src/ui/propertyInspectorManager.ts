@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { WidgetProperties, WidgetPropertyName } from '../types';
+
+/**
+ * @interface PropertyDefinition
+ * @brief An inspected style property and how it is entered and written in C
+ */
+interface PropertyDefinition {
+	name: WidgetPropertyName;
+	label: string;
+	kind: 'position' | 'size' | 'length' | 'radius' | 'opacity' | 'color' | 'font';
+	/**
+	 * LVGL setter: `lv_obj_set_<setter>(obj, value)`, or `lv_obj_set_style_<setter>(obj, value, LV_PART_MAIN)`
+	 * for style properties
+	 */
+	setter: string;
+	isStyle: boolean;
+}
+
+/**
+ * @interface PropertyElement
+ * @brief A property of the inspected object as shown in the view
+ */
+export interface PropertyElement {
+	definition: PropertyDefinition;
+	value: string;
+}
+
+/**
+ * @class PropertyInspectorManager
+ * @brief Shows and edits style properties of the object selected in the widget tree in the
+ * "LVGL Properties" view.
+ *
+ * Edits are applied to the live object in the running preview without recompiling, and are
+ * lost on the next reload. "Copy as C" turns the edited values into `lv_obj_set_*()` calls to
+ * paste back into the source.
+ *
+ * @implements {vscode.TreeDataProvider}
+ * @implements {vscode.Disposable}
+ */
+export class PropertyInspectorManager implements vscode.TreeDataProvider<PropertyElement>, vscode.Disposable {
+	public static readonly VIEW_ID = 'lvglWidgetProperties';
+
+	private static readonly PROPERTIES: PropertyDefinition[] = [
+		{ name: 'x', label: 'X', kind: 'position', setter: 'x', isStyle: false },
+		{ name: 'y', label: 'Y', kind: 'position', setter: 'y', isStyle: false },
+		{ name: 'width', label: 'Width', kind: 'size', setter: 'width', isStyle: false },
+		{ name: 'height', label: 'Height', kind: 'size', setter: 'height', isStyle: false },
+		{ name: 'padTop', label: 'Padding top', kind: 'length', setter: 'pad_top', isStyle: true },
+		{ name: 'padBottom', label: 'Padding bottom', kind: 'length', setter: 'pad_bottom', isStyle: true },
+		{ name: 'padLeft', label: 'Padding left', kind: 'length', setter: 'pad_left', isStyle: true },
+		{ name: 'padRight', label: 'Padding right', kind: 'length', setter: 'pad_right', isStyle: true },
+		{ name: 'radius', label: 'Radius', kind: 'radius', setter: 'radius', isStyle: true },
+		{ name: 'bgColor', label: 'Background colour', kind: 'color', setter: 'bg_color', isStyle: true },
+		{ name: 'bgOpa', label: 'Background opacity', kind: 'opacity', setter: 'bg_opa', isStyle: true },
+		{ name: 'textColor', label: 'Text colour', kind: 'color', setter: 'text_color', isStyle: true },
+		{ name: 'textFont', label: 'Text font', kind: 'font', setter: 'text_font', isStyle: true },
+	];
+
+	private readonly treeView: vscode.TreeView<PropertyElement>;
+	private readonly changeEmitter = new vscode.EventEmitter<PropertyElement | undefined>();
+	private widgetId: number | undefined;
+	private properties: WidgetProperties | undefined;
+	private edited = new Set<WidgetPropertyName>();
+
+	public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	/**
+	 * @brief Creates the tree view.
+	 *
+	 * @param onDidEditProperty - Called to set an edited value on the live object
+	 */
+	constructor(private readonly onDidEditProperty: (id: number, name: WidgetPropertyName, value: string) => void) {
+		this.treeView = vscode.window.createTreeView(PropertyInspectorManager.VIEW_ID, { treeDataProvider: this });
+	}
+
+	/**
+	 * @brief Gets the id of the inspected object.
+	 *
+	 * @returns The object id, or undefined if no object is selected
+	 */
+	public getWidgetId(): number | undefined {
+		return this.widgetId;
+	}
+
+	/**
+	 * @brief Selects the object to inspect; its properties follow with setProperties().
+	 *
+	 * @param id - Id of the object from the widget tree, null to clear the view
+	 */
+	public setWidget(id: number | null): void {
+		if (id === this.widgetId) {
+			return;
+		}
+
+		this.widgetId = id ?? undefined;
+		this.properties = undefined;
+		this.edited.clear();
+		this.refresh();
+	}
+
+	/**
+	 * @brief Shows the properties read from the running preview.
+	 *
+	 * @param id - Id of the object the properties belong to
+	 * @param properties - The properties, null if the object no longer exists
+	 */
+	public setProperties(id: number, properties: WidgetProperties | null): void {
+		if (id !== this.widgetId) {
+			return;
+		}
+
+		if (!properties) {
+			this.widgetId = undefined;
+			this.edited.clear();
+		}
+		this.properties = properties ?? undefined;
+		this.refresh();
+	}
+
+	/**
+	 * @brief Asks for a new value of a property and applies it to the live object.
+	 *
+	 * @param element - The property to edit
+	 */
+	public async editProperty(element: PropertyElement): Promise<void> {
+		const id = this.widgetId;
+		if (id === undefined || !this.properties) {
+			return;
+		}
+
+		const definition = element.definition;
+		let value: string | undefined;
+		if (definition.kind === 'font') {
+			value = await vscode.window.showQuickPick(this.properties.fonts, {
+				title: definition.label,
+				placeHolder: element.value || 'Custom font',
+			});
+		} else {
+			value = await vscode.window.showInputBox({
+				title: definition.label,
+				value: element.value,
+				prompt: PropertyInspectorManager.getPrompt(definition),
+				validateInput: (input) => PropertyInspectorManager.validate(definition, input.trim()),
+			});
+			value = value?.trim();
+		}
+
+		if (value === undefined || id !== this.widgetId) {
+			return;
+		}
+
+		this.edited.add(definition.name);
+		this.onDidEditProperty(id, definition.name, definition.kind === 'color' ? value.replace(/^#/, '') : value);
+	}
+
+	/**
+	 * @brief Copies properties as C code to the clipboard.
+	 *
+	 * @param element - The property to copy; without one, the edited properties are copied, or
+	 *                  all properties if none was edited
+	 */
+	public async copyAsC(element?: PropertyElement): Promise<void> {
+		const elements = this.getChildren();
+		if (elements.length === 0) {
+			vscode.window.showErrorMessage('Select an object in the LVGL Widgets view first');
+			return;
+		}
+
+		const selected = element
+			? [element]
+			: this.edited.size > 0
+				? elements.filter((e) => this.edited.has(e.definition.name))
+				: elements;
+		const lines = selected
+			.map((e) => PropertyInspectorManager.toC(e))
+			.filter((line): line is string => line !== undefined);
+
+		await vscode.env.clipboard.writeText(lines.join('\n'));
+		vscode.window.setStatusBarMessage(`Copied ${lines.length} LVGL properties as C`, 3000);
+	}
+
+	/**
+	 * @brief Gets the tree item of a property.
+	 *
+	 * @param element - The property
+	 * @returns The tree item showing the property and its value, marked when edited
+	 */
+	public getTreeItem(element: PropertyElement): vscode.TreeItem {
+		const edited = this.edited.has(element.definition.name);
+		const item = new vscode.TreeItem(element.definition.label);
+		item.description = (element.value || '(custom)') + (edited ? ' ●' : '');
+		item.tooltip = PropertyInspectorManager.toC(element) ?? 'Set by a font that is not built into LVGL';
+		item.contextValue = 'lvglWidgetProperty';
+		item.command = {
+			command: 'lvgl-preview.editWidgetProperty',
+			title: 'Edit Property',
+			arguments: [element],
+		};
+		return item;
+	}
+
+	/**
+	 * @brief Gets the properties of the inspected object.
+	 *
+	 * @returns The properties, empty if no object is selected
+	 */
+	public getChildren(): PropertyElement[] {
+		const properties = this.properties;
+		if (!properties) {
+			return [];
+		}
+
+		return PropertyInspectorManager.PROPERTIES.map((definition) => ({
+			definition,
+			value: properties.values[definition.name] ?? '',
+		}));
+	}
+
+	/**
+	 * @brief Updates the view's message and redraws it.
+	 */
+	private refresh(): void {
+		this.treeView.message =
+			this.properties && this.widgetId !== undefined
+				? `${this.properties.class} 0x${this.widgetId.toString(16)}`
+				: undefined;
+		this.changeEmitter.fire(undefined);
+	}
+
+	/**
+	 * @brief Gets the hint shown when editing a property.
+	 *
+	 * @param definition - The property
+	 * @returns Accepted value formats
+	 */
+	private static getPrompt(definition: PropertyDefinition): string {
+		switch (definition.kind) {
+			case 'position':
+				return 'Pixels or a percentage of the parent (50%)';
+			case 'size':
+				return 'Pixels, a percentage of the parent (50%) or "content"';
+			case 'radius':
+				return 'Pixels or "circle"';
+			case 'opacity':
+				return '0 (transparent) to 255 (cover)';
+			case 'color':
+				return 'Hex colour, for example 2196F3 or #2196F3';
+			default:
+				return 'Pixels';
+		}
+	}
+
+	/**
+	 * @brief Validates an entered value.
+	 *
+	 * @param definition - The property
+	 * @param value - The entered value
+	 * @returns An error message, or undefined if the value is valid
+	 */
+	private static validate(definition: PropertyDefinition, value: string): string | undefined {
+		const valid = {
+			position: /^-?\d+%?$/,
+			size: /^(\d+%?|content)$/,
+			length: /^-?\d+$/,
+			radius: /^(\d+|circle)$/,
+			opacity: /^(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+			color: /^#?[0-9a-fA-F]{6}$/,
+			font: /.*/,
+		}[definition.kind].test(value);
+		return valid ? undefined : PropertyInspectorManager.getPrompt(definition);
+	}
+
+	/**
+	 * @brief Converts a property to the LVGL call that sets it.
+	 *
+	 * @param element - The property
+	 * @returns The C statement, or undefined for a font that is not built into LVGL
+	 */
+	private static toC(element: PropertyElement): string | undefined {
+		const { definition, value } = element;
+		let argument = value;
+		if (definition.kind === 'position' || definition.kind === 'size') {
+			argument = value === 'content' ? 'LV_SIZE_CONTENT' : value.replace(/^(-?\d+)%$/, 'LV_PCT($1)');
+		} else if (definition.kind === 'radius' && value === 'circle') {
+			argument = 'LV_RADIUS_CIRCLE';
+		} else if (definition.kind === 'color') {
+			argument = `lv_color_hex(0x${value.toUpperCase()})`;
+		} else if (definition.kind === 'font' && !value) {
+			return undefined;
+		}
+
+		return definition.isStyle
+			? `lv_obj_set_style_${definition.setter}(obj, ${argument}, LV_PART_MAIN);`
+			: `lv_obj_set_${definition.setter}(obj, ${argument});`;
+	}
+
+	/**
+	 * @brief Disposes the tree view.
+	 */
+	public dispose(): void {
+		this.treeView.dispose();
+		this.changeEmitter.dispose();
+	}
+}
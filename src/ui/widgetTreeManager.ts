@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { WidgetTreeNode, WidgetTreeScreen } from '../types';
+
+/**
+ * @interface WidgetTreeElement
+ * @brief An object of the widget tree with the display it is shown on
+ */
+interface WidgetTreeElement {
+	node: WidgetTreeNode;
+	display: number;
+	isScreen: boolean;
+}
+
+/**
+ * @class WidgetTreeManager
+ * @brief Shows the LVGL object hierarchy of the running preview in the "LVGL Widgets" view.
+ *
+ * The tree holds the active screen of every display with its objects, as last sent by the
+ * webview. Selecting an object reports its id so the preview can highlight it.
+ *
+ * @implements {vscode.TreeDataProvider}
+ * @implements {vscode.Disposable}
+ */
+export class WidgetTreeManager implements vscode.TreeDataProvider<WidgetTreeElement>, vscode.Disposable {
+	public static readonly VIEW_ID = 'lvglWidgetTree';
+
+	private readonly treeView: vscode.TreeView<WidgetTreeElement>;
+	private readonly changeEmitter = new vscode.EventEmitter<WidgetTreeElement | undefined>();
+	private screens: WidgetTreeScreen[] = [];
+
+	public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	/**
+	 * @brief Creates the tree view.
+	 *
+	 * @param onDidSelectWidget - Called with the id of the selected object, or null when the selection is cleared
+	 */
+	constructor(onDidSelectWidget: (id: number | null) => void) {
+		this.treeView = vscode.window.createTreeView(WidgetTreeManager.VIEW_ID, {
+			treeDataProvider: this,
+			showCollapseAll: true,
+		});
+		this.treeView.onDidChangeSelection((event) => {
+			onDidSelectWidget(event.selection.length > 0 ? event.selection[0].node.id : null);
+		});
+	}
+
+	/**
+	 * @brief Replaces the shown tree.
+	 *
+	 * @param screens - Active screen of every display, empty when no preview runs
+	 */
+	public setTree(screens: WidgetTreeScreen[]): void {
+		this.screens = screens;
+		const count = screens.reduce((total, screen) => total + this.countObjects(screen.root), 0);
+		this.treeView.message = screens.length > 0 ? `${count} objects` : undefined;
+		this.changeEmitter.fire(undefined);
+	}
+
+	/**
+	 * @brief Gets the tree item of an object.
+	 *
+	 * @param element - The object
+	 * @returns The tree item showing its class, position, size, flags and state
+	 */
+	public getTreeItem(element: WidgetTreeElement): vscode.TreeItem {
+		const node = element.node;
+		const label = element.isScreen ? `Display ${element.display}` : node.class;
+		const collapsibleState =
+			node.children.length === 0
+				? vscode.TreeItemCollapsibleState.None
+				: element.isScreen
+					? vscode.TreeItemCollapsibleState.Expanded
+					: vscode.TreeItemCollapsibleState.Collapsed;
+
+		const item = new vscode.TreeItem(label, collapsibleState);
+		item.id = `${element.display}:${node.id}`;
+		const hidden = node.flags.includes('hidden');
+		item.description =
+			`${element.isScreen ? `${node.class} ` : ''}${node.x},${node.y} ${node.w}x${node.h}` +
+			(node.state.length > 0 ? ` [${node.state.join(', ')}]` : '') +
+			(hidden ? ' (hidden)' : '');
+		item.iconPath = new vscode.ThemeIcon(
+			element.isScreen ? 'device-desktop' : hidden ? 'eye-closed' : 'symbol-class'
+		);
+		item.tooltip = new vscode.MarkdownString(
+			[
+				`**${node.class}** \`0x${node.id.toString(16)}\``,
+				`Position: ${node.x}, ${node.y}`,
+				`Size: ${node.w} x ${node.h}`,
+				`Flags: ${node.flags.join(', ') || '-'}`,
+				`State: ${node.state.join(', ') || 'default'}`,
+				`Children: ${node.childCount}`,
+			].join('  \n')
+		);
+		return item;
+	}
+
+	/**
+	 * @brief Gets the children of an object, or the screens at the top level.
+	 *
+	 * @param element - The parent object, undefined for the top level
+	 * @returns The child objects
+	 */
+	public getChildren(element?: WidgetTreeElement): WidgetTreeElement[] {
+		if (!element) {
+			return this.screens.map((screen) => ({ node: screen.root, display: screen.display, isScreen: true }));
+		}
+		return element.node.children.map((child) => ({ node: child, display: element.display, isScreen: false }));
+	}
+
+	/**
+	 * @brief Counts an object and its descendants.
+	 *
+	 * @param node - The object
+	 * @returns Number of objects in the subtree
+	 */
+	private countObjects(node: WidgetTreeNode): number {
+		return node.children.reduce((total, child) => total + this.countObjects(child), 1);
+	}
+
+	/**
+	 * @brief Disposes the tree view.
+	 */
+	public dispose(): void {
+		this.treeView.dispose();
+		this.changeEmitter.dispose();
+	}
+}
@@ -57,6 +57,9 @@ export class ConfigLoader {
 			outputChannel.appendLine(`  Dependencies: ${resolvedConfig.dependencies.length} files`);
 			outputChannel.appendLine(`  Include paths: ${resolvedConfig.includePaths.length} directories`);
 			outputChannel.appendLine(`  Defines: ${resolvedConfig.defines.join(', ')}`);
+			if (resolvedConfig.lvConf) {
+				outputChannel.appendLine(`  lv_conf.h: ${resolvedConfig.lvConf}`);
+			}
 
 			return resolvedConfig;
 		} catch (error) {
@@ -156,6 +159,92 @@ export class ConfigLoader {
 				}
 			}
 		}
+
+		if (cfg.lvConf !== undefined && typeof cfg.lvConf !== 'string') {
+			throw new Error(`'lvConf' must be a string in ${configPath}`);
+		}
+
+		if (cfg.rotation !== undefined && ![0, 90, 180, 270].includes(cfg.rotation as number)) {
+			throw new Error(`'rotation' must be 0, 90, 180 or 270 in ${configPath}`);
+		}
+
+		if (cfg.displays !== undefined) {
+			if (!Array.isArray(cfg.displays)) {
+				throw new Error(`'displays' must be an array in ${configPath}`);
+			}
+
+			for (const display of cfg.displays) {
+				const size = display as Record<string, unknown>;
+				if (
+					!size ||
+					typeof size !== 'object' ||
+					!Number.isInteger(size.width) ||
+					!Number.isInteger(size.height) ||
+					(size.width as number) <= 0 ||
+					(size.height as number) <= 0
+				) {
+					throw new Error(`All displays must have a positive integer 'width' and 'height' in ${configPath}`);
+				}
+			}
+		}
+
+		if (cfg.device !== undefined) {
+			const device = cfg.device as Record<string, unknown>;
+			if (!device || typeof device !== 'object' || Array.isArray(device)) {
+				throw new Error(`'device' must be an object in ${configPath}`);
+			}
+
+			if (device.bezel !== undefined && typeof device.bezel !== 'string') {
+				throw new Error(`'device.bezel' must be a string in ${configPath}`);
+			}
+
+			if (device.shape !== undefined && device.shape !== 'rectangle' && device.shape !== 'circle') {
+				throw new Error(`'device.shape' must be 'rectangle' or 'circle' in ${configPath}`);
+			}
+
+			for (const field of ['screenX', 'screenY', 'cornerRadius']) {
+				const value = device[field];
+				if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+					throw new Error(`'device.${field}' must be a non-negative number in ${configPath}`);
+				}
+			}
+
+			if (device.dpi !== undefined && (typeof device.dpi !== 'number' || device.dpi <= 0)) {
+				throw new Error(`'device.dpi' must be a positive number in ${configPath}`);
+			}
+		}
+
+		if (cfg.visualTest !== undefined) {
+			const visualTest = cfg.visualTest as Record<string, unknown>;
+			if (!visualTest || typeof visualTest !== 'object' || Array.isArray(visualTest)) {
+				throw new Error(`'visualTest' must be an object in ${configPath}`);
+			}
+
+			for (const field of ['baselines', 'output']) {
+				if (visualTest[field] !== undefined && typeof visualTest[field] !== 'string') {
+					throw new Error(`'visualTest.${field}' must be a string in ${configPath}`);
+				}
+			}
+
+			for (const field of ['ticks', 'tolerance', 'maxDiffPixels']) {
+				const value = visualTest[field];
+				if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+					throw new Error(`'visualTest.${field}' must be a non-negative integer in ${configPath}`);
+				}
+			}
+		}
+
+		if (cfg.screens !== undefined) {
+			if (!Array.isArray(cfg.screens)) {
+				throw new Error(`'screens' must be an array in ${configPath}`);
+			}
+
+			for (const screen of cfg.screens) {
+				if (typeof screen !== 'string' || !/^[A-Za-z_]\w*$/.test(screen)) {
+					throw new Error(`All screens must be C function names in ${configPath}`);
+				}
+			}
+		}
 	}
 
 	/**
@@ -208,11 +297,51 @@ export class ConfigLoader {
 			}
 		}
 
+		// Resolve the project lv_conf.h
+		let lvConf: string | undefined;
+		if (config.lvConf) {
+			lvConf = path.isAbsolute(config.lvConf) ? config.lvConf : path.resolve(configDir, config.lvConf);
+
+			if (!fs.existsSync(lvConf)) {
+				throw new Error(`lv_conf.h not found: ${lvConf}`);
+			}
+		}
+
+		// Resolve the device bezel image
+		let device = config.device;
+		if (device?.bezel) {
+			const bezel = path.isAbsolute(device.bezel) ? device.bezel : path.resolve(configDir, device.bezel);
+
+			if (!fs.existsSync(bezel)) {
+				throw new Error(`Bezel image not found: ${bezel}`);
+			}
+
+			device = { ...device, bezel };
+		}
+
+		// Resolve the visual test folders
+		let visualTest = config.visualTest;
+		if (visualTest) {
+			const resolveFolder = (folder: string | undefined) =>
+				folder && !path.isAbsolute(folder) ? path.resolve(configDir, folder) : folder;
+			visualTest = {
+				...visualTest,
+				baselines: resolveFolder(visualTest.baselines),
+				output: resolveFolder(visualTest.output),
+			};
+		}
+
 		return {
 			mainFile,
 			dependencies,
 			includePaths,
 			defines: config.defines || [],
+			screens: config.screens,
+			lvConf,
+			rotation: config.rotation ?? 0,
+			displays: (config.displays ?? []).map((display) => ({ width: display.width, height: display.height })),
+			device,
+			visualTest,
 			configFileDir: configDir,
 		};
 	}
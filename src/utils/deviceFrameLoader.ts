@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeviceFrame, DeviceProfile } from '../types';
+
+/**
+ * @class DeviceFrameLoader
+ * @brief Turns the device profile of the project config into the frame the webview draws.
+ *
+ * The webview cannot read workspace files, so the bezel image is inlined as a data URI.
+ * The physical DPI falls back to LV_DPI_DEF, which the preview's "physical size" zoom uses.
+ */
+export class DeviceFrameLoader {
+	private static readonly IMAGE_TYPES: Record<string, string> = {
+		'.png': 'image/png',
+		'.jpg': 'image/jpeg',
+		'.jpeg': 'image/jpeg',
+		'.svg': 'image/svg+xml',
+		'.webp': 'image/webp',
+		'.gif': 'image/gif',
+	};
+
+	/**
+	 * @brief Loads the device frame for the webview.
+	 *
+	 * @param device Device profile from the project config, with the bezel path resolved
+	 * @param lvglDpi LV_DPI_DEF the preview is built with
+	 * @param outputChannel Output channel for logging
+	 * @returns The device frame, a plain rectangle at LV_DPI_DEF when no profile is configured
+	 */
+	public static load(
+		device: DeviceProfile | undefined,
+		lvglDpi: number,
+		outputChannel: vscode.OutputChannel
+	): DeviceFrame {
+		const frame: DeviceFrame = {
+			screenX: device?.screenX ?? 0,
+			screenY: device?.screenY ?? 0,
+			shape: device?.shape ?? 'rectangle',
+			cornerRadius: device?.cornerRadius ?? 0,
+			dpi: device?.dpi ?? lvglDpi,
+		};
+
+		if (device?.bezel) {
+			const mimeType = this.IMAGE_TYPES[path.extname(device.bezel).toLowerCase()];
+			if (mimeType) {
+				frame.bezel = `data:${mimeType};base64,${fs.readFileSync(device.bezel).toString('base64')}`;
+			} else {
+				outputChannel.appendLine(`Unsupported bezel image type, ignoring it: ${device.bezel}`);
+			}
+		}
+
+		if (device) {
+			outputChannel.appendLine(
+				`Device frame: ${frame.shape}, ${frame.dpi} DPI${frame.bezel ? `, bezel ${device.bezel}` : ''}`
+			);
+		}
+
+		return frame;
+	}
+}
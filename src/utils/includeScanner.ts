@@ -0,0 +1,55 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * @class IncludeScanner
+ * @brief Follows `#include` directives to find the headers a source file depends on.
+ *
+ * The main file is compiled together with the generated main and the SDL drivers in the
+ * final emcc call, so no depfile can be written for it alone.
+ */
+export class IncludeScanner {
+	/** Matches `#include "file.h"` and `#include <file.h>` directives */
+	private static readonly INCLUDE_PATTERN = /^\s*#\s*include\s*([<"])([^>"]+)[>"]/gm;
+
+	/**
+	 * @brief Finds the headers a source file includes, directly or through other headers.
+	 *
+	 * Quoted includes are looked up next to the including file first, then in the include paths;
+	 * angle-bracket includes only in the include paths. Includes that are not found there (LVGL,
+	 * system headers) are skipped. Conditional compilation is ignored.
+	 *
+	 * @param sourceFile Path to the source file
+	 * @param includePaths Include directories, in search order
+	 * @returns Absolute paths of the headers found, without the source file
+	 */
+	public static findIncludedHeaders(sourceFile: string, includePaths: string[]): string[] {
+		const headers: string[] = [];
+		const pending = [path.resolve(sourceFile)];
+		const visited = new Set(pending);
+
+		for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+			let content: string;
+			try {
+				content = fs.readFileSync(file, 'utf-8');
+			} catch {
+				continue;
+			}
+
+			for (const [, delimiter, name] of content.matchAll(IncludeScanner.INCLUDE_PATTERN)) {
+				const searchPaths = delimiter === '"' ? [path.dirname(file), ...includePaths] : includePaths;
+				const header = searchPaths
+					.map((dir) => path.resolve(dir, name))
+					.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+
+				if (header && !visited.has(header)) {
+					visited.add(header);
+					headers.push(header);
+					pending.push(header);
+				}
+			}
+		}
+
+		return headers;
+	}
+}
@@ -0,0 +1,24 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * @class ObjectNaming
+ * @brief Names the object files of compiled sources.
+ *
+ * Object files are written into flat directories, so naming them after the source's base
+ * name alone would let `ui/screen.c` and `drivers/screen.c` overwrite each other.
+ */
+export class ObjectNaming {
+	/**
+	 * @brief Gets a collision-free output file name for a compiled source file.
+	 *
+	 * @param sourceFile Path to the source file
+	 * @param extension Extension of the output file (default: '.o')
+	 * @returns The base name followed by a short hash of the absolute path, e.g. `screen_1a2b3c4d.o`
+	 */
+	public static getObjectFileName(sourceFile: string, extension: string = '.o'): string {
+		const baseName = path.basename(sourceFile, path.extname(sourceFile));
+		const pathHash = crypto.createHash('sha256').update(path.resolve(sourceFile)).digest('hex').substring(0, 8);
+		return `${baseName}_${pathHash}${extension}`;
+	}
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * @class OutputFolder
+ * @brief Resolves where files created from the preview (screenshots, videos, recordings) are saved.
+ */
+export class OutputFolder {
+	/**
+	 * @brief Resolves a folder setting that files created from the preview are saved to.
+	 *
+	 * Relative folders are resolved against the workspace folder of the file, or the file's
+	 * directory outside a workspace.
+	 *
+	 * @param setting - Name of the `lvglPreview.*` setting holding the folder
+	 * @param defaultFolder - Folder used when the setting is not set
+	 * @param sourceFile - URI of the previewed file
+	 * @returns Absolute folder path
+	 */
+	public static resolve(setting: string, defaultFolder: string, sourceFile: vscode.Uri): string {
+		const config = vscode.workspace.getConfiguration('lvglPreview');
+		const folder = config.get<string>(setting, defaultFolder);
+		if (path.isAbsolute(folder)) {
+			return folder;
+		}
+
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(sourceFile);
+		const root = workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(sourceFile.fsPath);
+		return path.join(root, folder);
+	}
+
+	/**
+	 * @brief Gets a local timestamp that sorts by time and is valid in file names.
+	 *
+	 * @returns Timestamp such as `2026-01-31_14-05-09`
+	 */
+	public static getFileTimestamp(): string {
+		const now = new Date();
+		const pad = (value: number) => String(value).padStart(2, '0');
+		const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+		const time = `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+		return `${date}_${time}`;
+	}
+}
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { PreviewScreen } from '../types';
+
+/**
+ * @class ScreenDiscovery
+ * @brief Finds the screen entry points offered in the preview's screen selector.
+ *
+ * Screens are either listed explicitly in the `screens` field of .lvgl-live-preview.json or
+ * discovered by scanning the user's sources for non-static `void lvgl_live_preview_screen_<name>(void)`
+ * definitions.
+ */
+export class ScreenDiscovery {
+	private static readonly SCREEN_PREFIX = 'lvgl_live_preview_screen_';
+
+	/**
+	 * @brief Gets the screens to compile into the generated main file.
+	 *
+	 * @param sourceFiles User source files to scan (main file and dependencies)
+	 * @param configuredScreens Function names from the project config, which take precedence over discovery
+	 * @param outputChannel Output channel for logging
+	 * @returns Screens in dropdown order
+	 */
+	public static getScreens(
+		sourceFiles: string[],
+		configuredScreens: string[] | undefined,
+		outputChannel: vscode.OutputChannel
+	): PreviewScreen[] {
+		const functionNames = configuredScreens ?? this.discoverFunctions(sourceFiles);
+		const screens = [...new Set(functionNames)].map((functionName) => ({
+			name: functionName.startsWith(this.SCREEN_PREFIX)
+				? functionName.substring(this.SCREEN_PREFIX.length)
+				: functionName,
+			functionName,
+		}));
+
+		if (screens.length > 0) {
+			const source = configuredScreens ? 'configured' : 'discovered';
+			outputChannel.appendLine(`Screens (${source}): ${screens.map((s) => s.name).join(', ')}`);
+		}
+
+		return screens;
+	}
+
+	/**
+	 * @brief Scans source files for screen function definitions.
+	 *
+	 * Only definitions at the start of a line are matched, so prototypes, static functions and
+	 * commented-out lines are ignored.
+	 *
+	 * @param sourceFiles Source files to scan
+	 * @returns Function names in file order
+	 */
+	private static discoverFunctions(sourceFiles: string[]): string[] {
+		const definition = new RegExp(
+			`^[ \\t]*void[ \\t]+(${this.SCREEN_PREFIX}\\w+)\\s*\\(\\s*(?:void)?\\s*\\)\\s*(?=\\{|$)`,
+			'gm'
+		);
+		const functionNames: string[] = [];
+
+		for (const sourceFile of sourceFiles) {
+			if (!fs.existsSync(sourceFile)) {
+				continue;
+			}
+
+			const content = fs.readFileSync(sourceFile, 'utf-8');
+			for (const match of content.matchAll(definition)) {
+				functionNames.push(match[1]);
+			}
+		}
+
+		return functionNames;
+	}
+}
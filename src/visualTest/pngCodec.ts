@@ -0,0 +1,221 @@
+import * as zlib from 'zlib';
+
+/**
+ * @interface RgbaImage
+ * @brief An image with 8-bit RGBA pixels, row by row
+ */
+export interface RgbaImage {
+	width: number;
+	height: number;
+	data: Uint8Array;
+}
+
+/**
+ * @class PngCodec
+ * @brief Minimal PNG encoder and decoder for the visual tests.
+ *
+ * Encodes 8-bit RGBA images and decodes the non-interlaced 8-bit greyscale, RGB and RGBA PNGs
+ * baselines are stored as, so the visual tests need no image library.
+ */
+export class PngCodec {
+	private static readonly SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+	private static crcTable: Uint32Array | undefined;
+
+	/**
+	 * @brief Encodes an RGBA image as PNG.
+	 *
+	 * @param image - Image to encode
+	 * @returns PNG file content
+	 */
+	public static encode(image: RgbaImage): Buffer {
+		const stride = image.width * 4;
+		const raw = Buffer.alloc((stride + 1) * image.height);
+		for (let y = 0; y < image.height; y++) {
+			// Filter type 0 (none) for every row
+			raw[y * (stride + 1)] = 0;
+			raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+		}
+
+		const header = Buffer.alloc(13);
+		header.writeUInt32BE(image.width, 0);
+		header.writeUInt32BE(image.height, 4);
+		header[8] = 8; // Bit depth
+		header[9] = 6; // Colour type RGBA
+		header[10] = 0; // Compression
+		header[11] = 0; // Filter method
+		header[12] = 0; // No interlace
+
+		return Buffer.concat([
+			this.SIGNATURE,
+			this.createChunk('IHDR', header),
+			this.createChunk('IDAT', zlib.deflateSync(raw)),
+			this.createChunk('IEND', Buffer.alloc(0)),
+		]);
+	}
+
+	/**
+	 * @brief Decodes a PNG into an RGBA image.
+	 *
+	 * @param png - PNG file content
+	 * @returns The decoded image
+	 * @throws Error if the PNG is invalid or corrupt, or uses a format other than 8-bit greyscale, RGB or RGBA
+	 */
+	public static decode(png: Buffer): RgbaImage {
+		if (png.length < 8 || !png.subarray(0, 8).equals(this.SIGNATURE)) {
+			throw new Error('Not a PNG file');
+		}
+
+		let width = 0;
+		let height = 0;
+		let channels = 0;
+		const dataChunks: Buffer[] = [];
+
+		for (let offset = 8; offset + 8 <= png.length; ) {
+			const length = png.readUInt32BE(offset);
+			const type = png.toString('ascii', offset + 4, offset + 8);
+			if (offset + 12 + length > png.length) {
+				throw new Error(`PNG chunk ${type} is truncated`);
+			}
+			if (png.readUInt32BE(offset + 8 + length) !== this.crc32(png.subarray(offset + 4, offset + 8 + length))) {
+				throw new Error(`PNG chunk ${type} has an invalid CRC`);
+			}
+			const data = png.subarray(offset + 8, offset + 8 + length);
+
+			if (type === 'IHDR') {
+				width = data.readUInt32BE(0);
+				height = data.readUInt32BE(4);
+				const bitDepth = data[8];
+				const colorType = data[9];
+				channels = colorType === 6 ? 4 : colorType === 2 ? 3 : colorType === 0 ? 1 : 0;
+				if (bitDepth !== 8 || channels === 0 || data[12] !== 0) {
+					throw new Error('Unsupported PNG format, expected non-interlaced 8-bit greyscale, RGB or RGBA');
+				}
+			} else if (type === 'IDAT') {
+				dataChunks.push(data);
+			} else if (type === 'IEND') {
+				break;
+			}
+
+			offset += 12 + length;
+		}
+
+		if (width === 0 || height === 0) {
+			throw new Error('PNG has no image header');
+		}
+
+		const raw = zlib.inflateSync(Buffer.concat(dataChunks));
+		const stride = width * channels;
+		const pixels = new Uint8Array(stride * height);
+
+		for (let y = 0; y < height; y++) {
+			const filter = raw[y * (stride + 1)];
+			const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+			const row = pixels.subarray(y * stride, (y + 1) * stride);
+			const previous = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : undefined;
+			this.unfilterRow(filter, line, row, previous, channels);
+		}
+
+		const data = new Uint8Array(width * height * 4);
+		for (let i = 0; i < width * height; i++) {
+			const source = i * channels;
+			if (channels === 1) {
+				data.set([pixels[source], pixels[source], pixels[source], 255], i * 4);
+			} else {
+				data.set(
+					[pixels[source], pixels[source + 1], pixels[source + 2], channels === 4 ? pixels[source + 3] : 255],
+					i * 4
+				);
+			}
+		}
+
+		return { width, height, data };
+	}
+
+	/**
+	 * @brief Reverses the PNG filter of one row.
+	 *
+	 * @param filter - Filter type of the row
+	 * @param line - Filtered bytes of the row
+	 * @param row - Output for the unfiltered bytes
+	 * @param previous - Unfiltered bytes of the previous row, undefined for the first row
+	 * @param bytesPerPixel - Number of bytes per pixel
+	 */
+	private static unfilterRow(
+		filter: number,
+		line: Uint8Array,
+		row: Uint8Array,
+		previous: Uint8Array | undefined,
+		bytesPerPixel: number
+	): void {
+		for (let i = 0; i < line.length; i++) {
+			const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+			const up = previous ? previous[i] : 0;
+			const upLeft = previous && i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+			let predictor = 0;
+			if (filter === 1) {
+				predictor = left;
+			} else if (filter === 2) {
+				predictor = up;
+			} else if (filter === 3) {
+				predictor = (left + up) >> 1;
+			} else if (filter === 4) {
+				const estimate = left + up - upLeft;
+				const distanceLeft = Math.abs(estimate - left);
+				const distanceUp = Math.abs(estimate - up);
+				const distanceUpLeft = Math.abs(estimate - upLeft);
+				predictor =
+					distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+						? left
+						: distanceUp <= distanceUpLeft
+							? up
+							: upLeft;
+			} else if (filter !== 0) {
+				throw new Error(`Invalid PNG filter type ${filter}`);
+			}
+
+			row[i] = (line[i] + predictor) & 0xff;
+		}
+	}
+
+	/**
+	 * @brief Builds a PNG chunk with its length and CRC.
+	 *
+	 * @param type - Four-letter chunk type
+	 * @param data - Chunk data
+	 * @returns The chunk bytes
+	 */
+	private static createChunk(type: string, data: Buffer): Buffer {
+		const chunk = Buffer.alloc(12 + data.length);
+		chunk.writeUInt32BE(data.length, 0);
+		chunk.write(type, 4, 'ascii');
+		data.copy(chunk, 8);
+		chunk.writeUInt32BE(this.crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+		return chunk;
+	}
+
+	/**
+	 * @brief Computes the CRC-32 PNG chunks are checked with.
+	 *
+	 * @param bytes - Chunk type and data
+	 * @returns The CRC
+	 */
+	private static crc32(bytes: Uint8Array): number {
+		if (!this.crcTable) {
+			this.crcTable = new Uint32Array(256);
+			for (let n = 0; n < 256; n++) {
+				let c = n;
+				for (let k = 0; k < 8; k++) {
+					c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+				}
+				this.crcTable[n] = c >>> 0;
+			}
+		}
+
+		let crc = 0xffffffff;
+		for (const byte of bytes) {
+			crc = this.crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+		}
+		return (crc ^ 0xffffffff) >>> 0;
+	}
+}
@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as child_process from 'child_process';
+import * as readline from 'readline';
+import { CompilationManager } from '../compiler/compilationManager';
+import { VisualTestRunner } from './visualTestRunner';
+import { ConfigLoader } from '../utils/configLoader';
+import { ResolvedProjectConfig, VisualTestEntry, VisualTestManifest, VisualTestReport } from '../types';
+
+/**
+ * @class VisualTestManager
+ * @brief Runs the visual regression tests from VS Code.
+ *
+ * Builds the headless module with the CompilationManager, writes the manifest and runs the tests
+ * on it in a child process (see visualTestProcess.ts), so the module's WASM heap never lives in
+ * the extension host. The child is killed when the run is cancelled or takes too long.
+ */
+export class VisualTestManager {
+	/** Number of 5 ms ticks run before an entry point is captured */
+	private static readonly DEFAULT_TICKS = 100;
+
+	/** Time the child process gets to load the module and render all entry points */
+	private static readonly RUN_TIMEOUT_MS = 5 * 60 * 1000;
+
+	/** The compiled child process entry point */
+	private static readonly PROCESS_PATH = path.join(__dirname, 'visualTestProcess.js');
+
+	/**
+	 * @brief Creates a new VisualTestManager instance.
+	 *
+	 * @param compilationManager - Compilation manager used to build the headless module
+	 * @param outputChannel - Output channel for logging
+	 */
+	constructor(
+		private readonly compilationManager: CompilationManager,
+		private readonly outputChannel: vscode.OutputChannel
+	) {}
+
+	/**
+	 * @brief Builds the headless module of a file and compares its entry points against the baselines.
+	 *
+	 * Every screen entry point is rendered; without screens, `lvgl_live_preview_init()` is rendered
+	 * as `init`.
+	 *
+	 * @param fileUri - URI of the main C file (in project mode, any file of the project)
+	 * @param updateBaselines - Whether to replace the baselines with the rendered images
+	 */
+	public async run(fileUri: vscode.Uri, updateBaselines: boolean): Promise<void> {
+		this.outputChannel.appendLine('[VisualTestManager] Building headless module...');
+
+		await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: updateBaselines ? 'Updating LVGL visual test baselines' : 'Running LVGL visual tests',
+				cancellable: true,
+			},
+			async (progress, token) => {
+				progress.report({ message: 'Compiling...' });
+				const result = await this.compilationManager.compileUserFile(fileUri, token, true);
+				if (result.cancelled || token.isCancellationRequested) {
+					this.outputChannel.appendLine('[VisualTestManager] Visual tests cancelled');
+					return;
+				}
+				if (!result.success || !result.jsPath || !result.wasmPath) {
+					this.outputChannel.appendLine('[VisualTestManager] Headless build failed');
+					const choice = await vscode.window.showErrorMessage(
+						'Visual tests: compilation failed, see the output',
+						'Show Output'
+					);
+					if (choice === 'Show Output') {
+						this.outputChannel.show(true);
+					}
+					return;
+				}
+
+				const projectConfig = await ConfigLoader.loadConfig(fileUri, this.outputChannel);
+				const manifest = this.createManifest(
+					fileUri,
+					projectConfig,
+					result.jsPath,
+					result.wasmPath,
+					result.screens ?? []
+				);
+				const manifestPath = path.join(manifest.outputDir, VisualTestRunner.MANIFEST_FILE);
+				const reportPath = path.join(manifest.outputDir, VisualTestRunner.REPORT_FILE);
+				fs.mkdirSync(manifest.outputDir, { recursive: true });
+				fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, '\t'));
+				fs.rmSync(reportPath, { force: true });
+
+				progress.report({ message: 'Rendering...' });
+				const exitCode = await this.runTestProcess(manifestPath, updateBaselines, token);
+				if (token.isCancellationRequested) {
+					this.outputChannel.appendLine('[VisualTestManager] Visual tests cancelled');
+					return;
+				}
+				if (!fs.existsSync(reportPath)) {
+					this.outputChannel.appendLine(
+						`[VisualTestManager] Visual test process exited with code ${exitCode}`
+					);
+					const choice = await vscode.window.showErrorMessage(
+						'Visual tests: the headless module could not be run, see the output',
+						'Show Output'
+					);
+					if (choice === 'Show Output') {
+						this.outputChannel.show(true);
+					}
+					return;
+				}
+
+				const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as VisualTestReport;
+				this.outputChannel.appendLine(`[VisualTestManager] Results written to ${manifest.outputDir}`);
+
+				if (report.passed) {
+					void vscode.window.showInformationMessage(`Visual tests passed (${report.results.length} test(s))`);
+				} else {
+					const failed = report.results.filter((r) => r.status === 'failed' || r.status === 'error');
+					const choice = await vscode.window.showErrorMessage(
+						`Visual tests failed: ${failed.map((r) => r.name).join(', ')}`,
+						'Show Output'
+					);
+					if (choice === 'Show Output') {
+						this.outputChannel.show(true);
+					}
+				}
+			}
+		);
+	}
+
+	/**
+	 * @brief Runs the visual tests of a manifest in a Node child process.
+	 *
+	 * The child's output, including the module's stdout and stderr and the formatted report, is
+	 * written to the output channel. The child is killed when the token is cancelled or it does
+	 * not finish within RUN_TIMEOUT_MS.
+	 *
+	 * @param manifestPath - Path of the manifest
+	 * @param updateBaselines - Whether to replace the baselines with the rendered images
+	 * @param token - Cancellation token of the progress notification
+	 * @returns The child's exit code, null if it was killed
+	 */
+	private runTestProcess(
+		manifestPath: string,
+		updateBaselines: boolean,
+		token: vscode.CancellationToken
+	): Promise<number | null> {
+		const args = updateBaselines ? [manifestPath, '--update'] : [manifestPath];
+
+		return new Promise((resolve, reject) => {
+			const child = child_process.fork(VisualTestManager.PROCESS_PATH, args, { silent: true });
+
+			for (const stream of [child.stdout, child.stderr]) {
+				if (stream) {
+					readline
+						.createInterface({ input: stream })
+						.on('line', (line) => this.outputChannel.appendLine(`[VisualTest] ${line}`));
+				}
+			}
+
+			const timeout = setTimeout(() => {
+				this.outputChannel.appendLine(
+					`[VisualTestManager] Visual tests did not finish within ${VisualTestManager.RUN_TIMEOUT_MS / 1000} s`
+				);
+				child.kill();
+			}, VisualTestManager.RUN_TIMEOUT_MS);
+			const cancellation = token.onCancellationRequested(() => child.kill());
+
+			const cleanUp = () => {
+				clearTimeout(timeout);
+				cancellation.dispose();
+			};
+			child.on('error', (error) => {
+				cleanUp();
+				reject(error);
+			});
+			child.on('close', (code) => {
+				cleanUp();
+				resolve(code);
+			});
+		});
+	}
+
+	/**
+	 * @brief Creates the manifest from the project config's `visualTest` settings.
+	 *
+	 * @param fileUri - URI of the compiled file, whose folder is used without a project config
+	 * @param projectConfig - Project config of the file, null in single-file mode
+	 * @param jsPath - Path of the headless module's JS file
+	 * @param wasmPath - Path of the headless module's WASM file
+	 * @param screens - Screen entry points compiled into the module
+	 * @returns The manifest
+	 */
+	private createManifest(
+		fileUri: vscode.Uri,
+		projectConfig: ResolvedProjectConfig | null,
+		jsPath: string,
+		wasmPath: string,
+		screens: { name: string }[]
+	): VisualTestManifest {
+		const baseDir = projectConfig?.configFileDir ?? path.dirname(fileUri.fsPath);
+		const settings = projectConfig?.visualTest;
+
+		const entries: VisualTestEntry[] =
+			screens.length > 0
+				? screens.map((screen, index) => ({ name: screen.name.replace(/[^\w-]/g, '_'), index }))
+				: [{ name: 'init', index: -1 }];
+
+		return {
+			jsPath,
+			wasmPath,
+			entries,
+			baselineDir: settings?.baselines ?? path.join(baseDir, 'visual-baselines'),
+			outputDir: settings?.output ?? path.join(baseDir, 'visual-test-results'),
+			ticks: settings?.ticks ?? VisualTestManager.DEFAULT_TICKS,
+			tolerance: settings?.tolerance ?? 0,
+			maxDiffPixels: settings?.maxDiffPixels ?? 0,
+		};
+	}
+}
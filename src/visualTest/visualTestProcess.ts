@@ -0,0 +1,43 @@
+/**
+ * @file visualTestProcess.ts
+ * @brief Child process entry point of the LVGL visual regression tests.
+ *
+ * The "LVGL: Run Visual Tests" command builds the headless module, writes the manifest to the
+ * results folder and forks this script on it, so the module's WASM heap never lives in the
+ * extension host. It is not a standalone command line tool: building the module needs the
+ * extension, which manages Emscripten and LVGL.
+ *
+ * Arguments: <visual-test-manifest.json> [--update]
+ *
+ * Exits with 0 when all tests passed, 1 when a test failed and 2 on argument or load errors.
+ */
+
+import * as fs from 'fs';
+import { VisualTestRunner } from './visualTestRunner';
+import { VisualTestManifest } from '../types';
+
+async function main(args: string[]): Promise<number> {
+	const updateBaselines = args.includes('--update');
+	const manifestPath = args.find((arg) => !arg.startsWith('--'));
+
+	if (!manifestPath) {
+		console.error(`Expected the path of ${VisualTestRunner.MANIFEST_FILE}`);
+		return 2;
+	}
+
+	const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as VisualTestManifest;
+	const report = await VisualTestRunner.run(manifest, updateBaselines, (line) => console.log(line));
+	console.log(VisualTestRunner.formatReport(report));
+
+	return report.passed ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error: unknown) => {
+		console.error(error instanceof Error ? error.message : String(error));
+		process.exitCode = 2;
+	}
+);
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PngCodec, RgbaImage } from './pngCodec';
+import { VisualTestCaseResult, VisualTestEntry, VisualTestManifest, VisualTestReport } from '../types';
+
+/**
+ * @interface HeadlessModule
+ * @brief The parts of the Emscripten module the runner uses
+ */
+interface HeadlessModule {
+	ccall(name: string, returnType: string | null, argTypes: string[], args: unknown[]): number;
+	HEAPU8: Uint8Array;
+}
+
+/**
+ * @class VisualTestRunner
+ * @brief Renders the entry points of a headless module under Node and compares them against baselines.
+ *
+ * The runner has no VS Code dependency, so the extension can run it in a child process. The module
+ * is the headless build (see MainTemplate.generateHeadlessMainFile()), which needs neither a canvas
+ * nor SDL video, so it runs in plain Node.
+ */
+export class VisualTestRunner {
+	/** File name of the manifest written next to the results */
+	public static readonly MANIFEST_FILE = 'visual-test-manifest.json';
+
+	/** File name of the JSON report */
+	public static readonly REPORT_FILE = 'report.json';
+
+	/** Time main() gets to set up LVGL before the module is given up on */
+	private static readonly LOAD_TIMEOUT_MS = 30 * 1000;
+
+	/**
+	 * @brief Runs the visual tests of a headless module.
+	 *
+	 * Rendered images are written to the output folder. Missing baselines are created from the
+	 * rendered image; with updateBaselines all baselines are replaced. Failed tests get a diff image
+	 * that marks the differing pixels in red.
+	 *
+	 * @param manifest - Module, entry points and comparison settings
+	 * @param updateBaselines - Whether to replace the baselines with the rendered images
+	 * @param log - Receives progress and module output lines
+	 * @returns The report, also written as JSON to the output folder
+	 */
+	public static async run(
+		manifest: VisualTestManifest,
+		updateBaselines: boolean,
+		log: (line: string) => void
+	): Promise<VisualTestReport> {
+		fs.mkdirSync(manifest.outputDir, { recursive: true });
+
+		const module = await this.loadModule(manifest, log);
+		const width = module.ccall('lvgl_live_preview_headless_width', 'number', [], []);
+		const height = module.ccall('lvgl_live_preview_headless_height', 'number', [], []);
+		log(`Rendering ${manifest.entries.length} entry point(s) at ${width}x${height} after ${manifest.ticks} ticks`);
+
+		const results: VisualTestCaseResult[] = [];
+		for (const entry of manifest.entries) {
+			const pointer = module.ccall(
+				'lvgl_live_preview_headless_render',
+				'number',
+				['number', 'number'],
+				[entry.index, manifest.ticks]
+			);
+
+			if (!pointer) {
+				results.push({
+					name: entry.name,
+					status: 'error',
+					baselinePath: this.getBaselinePath(manifest, entry),
+					message: `Entry point ${entry.index} not found in the module`,
+				});
+				continue;
+			}
+
+			const actual: RgbaImage = {
+				width,
+				height,
+				data: module.HEAPU8.slice(pointer, pointer + width * height * 4),
+			};
+			results.push(this.compare(manifest, entry, actual, updateBaselines));
+		}
+
+		const report: VisualTestReport = {
+			passed: results.every((result) => result.status !== 'failed' && result.status !== 'error'),
+			results,
+		};
+		fs.writeFileSync(path.join(manifest.outputDir, this.REPORT_FILE), JSON.stringify(report, null, '\t'));
+
+		return report;
+	}
+
+	/**
+	 * @brief Formats a report as text, one line per test and a summary line.
+	 *
+	 * @param report - Report to format
+	 * @returns The formatted report
+	 */
+	public static formatReport(report: VisualTestReport): string {
+		const lines = report.results.map((result) => {
+			const details = result.message ?? (result.diffPixels !== undefined ? `${result.diffPixels} px differ` : '');
+			return `${result.status.toUpperCase().padEnd(7)} ${result.name}${details ? ` (${details})` : ''}`;
+		});
+
+		const failed = report.results.filter((result) => result.status === 'failed' || result.status === 'error');
+		lines.push(
+			report.passed
+				? `Visual tests passed (${report.results.length} test(s))`
+				: `Visual tests failed: ${failed.length} of ${report.results.length} test(s)`
+		);
+		return lines.join('\n');
+	}
+
+	/**
+	 * @brief Loads the headless module and waits for main() to set up LVGL.
+	 *
+	 * @param manifest - Manifest with the paths of the module's JS and WASM files
+	 * @param log - Receives the module's stdout and stderr lines
+	 * @returns The running module
+	 * @throws Error if the module aborts or does not start within LOAD_TIMEOUT_MS
+	 */
+	private static loadModule(manifest: VisualTestManifest, log: (line: string) => void): Promise<HeadlessModule> {
+		const jsContent = fs.readFileSync(manifest.jsPath, 'utf-8');
+		const wasmBinary = fs.readFileSync(manifest.wasmPath);
+
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(
+				() => reject(new Error(`Headless module did not start within ${this.LOAD_TIMEOUT_MS / 1000} s`)),
+				this.LOAD_TIMEOUT_MS
+			);
+
+			const moduleConfig: Record<string, unknown> = {
+				wasmBinary,
+				print: (text: string) => log(`[LVGL] ${text}`),
+				printErr: (text: string) => log(`[LVGL Error] ${text}`),
+				postRun: [
+					() => {
+						clearTimeout(timeout);
+						resolve(moduleConfig as unknown as HeadlessModule);
+					},
+				],
+				onAbort: (reason: unknown) => {
+					clearTimeout(timeout);
+					reject(new Error(`Headless module aborted: ${String(reason)}`));
+				},
+			};
+
+			// The Emscripten script picks up the pre-configured Module, like in the webview
+			try {
+				const runScript = new Function('Module', 'require', '__filename', '__dirname', jsContent);
+				runScript(moduleConfig, require, manifest.jsPath, path.dirname(manifest.jsPath));
+			} catch (error) {
+				clearTimeout(timeout);
+				reject(error);
+			}
+		});
+	}
+
+	/**
+	 * @brief Compares a rendered image with its baseline.
+	 *
+	 * @param manifest - Manifest with the folders and comparison settings
+	 * @param entry - Entry point the image was rendered from
+	 * @param actual - Rendered image
+	 * @param updateBaselines - Whether to replace the baseline with the rendered image
+	 * @returns Result of the test
+	 */
+	private static compare(
+		manifest: VisualTestManifest,
+		entry: VisualTestEntry,
+		actual: RgbaImage,
+		updateBaselines: boolean
+	): VisualTestCaseResult {
+		const baselinePath = this.getBaselinePath(manifest, entry);
+		const actualPath = path.join(manifest.outputDir, `${entry.name}.png`);
+		const actualPng = PngCodec.encode(actual);
+		fs.writeFileSync(actualPath, actualPng);
+
+		const baselineExists = fs.existsSync(baselinePath);
+		if (updateBaselines || !baselineExists) {
+			fs.mkdirSync(manifest.baselineDir, { recursive: true });
+			fs.writeFileSync(baselinePath, actualPng);
+			return { name: entry.name, status: baselineExists ? 'updated' : 'created', baselinePath, actualPath };
+		}
+
+		const baseline = PngCodec.decode(fs.readFileSync(baselinePath));
+		if (baseline.width !== actual.width || baseline.height !== actual.height) {
+			return {
+				name: entry.name,
+				status: 'failed',
+				baselinePath,
+				actualPath,
+				message: `size ${actual.width}x${actual.height} differs from baseline ${baseline.width}x${baseline.height}`,
+			};
+		}
+
+		const diff: RgbaImage = {
+			width: actual.width,
+			height: actual.height,
+			data: new Uint8Array(actual.data.length),
+		};
+		let diffPixels = 0;
+		for (let i = 0; i < actual.data.length; i += 4) {
+			let difference = 0;
+			for (let channel = 0; channel < 4; channel++) {
+				difference = Math.max(difference, Math.abs(actual.data[i + channel] - baseline.data[i + channel]));
+			}
+
+			if (difference > manifest.tolerance) {
+				diffPixels++;
+				diff.data.set([255, 0, 0, 255], i);
+			} else {
+				// Faded copy of the image, so the red pixels stand out
+				const luminance = (actual.data[i] * 299 + actual.data[i + 1] * 587 + actual.data[i + 2] * 114) / 1000;
+				const faded = Math.round(191 + luminance / 4);
+				diff.data.set([faded, faded, faded, 255], i);
+			}
+		}
+
+		if (diffPixels <= manifest.maxDiffPixels) {
+			return { name: entry.name, status: 'passed', baselinePath, actualPath, diffPixels };
+		}
+
+		const diffPath = path.join(manifest.outputDir, `${entry.name}.diff.png`);
+		fs.writeFileSync(diffPath, PngCodec.encode(diff));
+		return { name: entry.name, status: 'failed', baselinePath, actualPath, diffPath, diffPixels };
+	}
+
+	/**
+	 * @brief Gets the path of an entry point's baseline image.
+	 *
+	 * @param manifest - Manifest with the baseline folder
+	 * @param entry - Entry point of the baseline
+	 * @returns Path of the baseline PNG
+	 */
+	private static getBaselinePath(manifest: VisualTestManifest, entry: VisualTestEntry): string {
+		return path.join(manifest.baselineDir, `${entry.name}.png`);
+	}
+}
@@ -32,12 +32,13 @@ export class FileWatcher implements vscode.Disposable {
 	 * @brief Starts watching a single file for changes.
 	 *
 	 * If watchers already exist, they will be disposed of before creating a new one.
+	 * A change that is still being debounced is kept.
 	 *
 	 * @param fileUri - URI of the file to watch
 	 */
 	public watchFile(fileUri: vscode.Uri): void {
 		// Dispose existing watchers if any
-		this.dispose();
+		this.disposeWatchers();
 
 		// Create a new watcher for the specific file
 		// Use the file path directly as a glob pattern
@@ -62,12 +63,14 @@ export class FileWatcher implements vscode.Disposable {
 	 * @brief Starts watching multiple files for changes.
 	 *
 	 * If watchers already exist, they will be disposed of before creating new ones.
+	 * A change that is still being debounced is kept, so the watched set can be updated
+	 * after each build.
 	 *
 	 * @param fileUris - Array of URIs of files to watch
 	 */
 	public watchFiles(fileUris: vscode.Uri[]): void {
 		// Dispose existing watchers if any
-		this.dispose();
+		this.disposeWatchers();
 
 		// Create a watcher for each file
 		for (const fileUri of fileUris) {
@@ -105,6 +108,16 @@ export class FileWatcher implements vscode.Disposable {
 		}, this.debounceDelay);
 	}
 
+	/**
+	 * @brief Disposes the underlying file system watchers.
+	 */
+	private disposeWatchers(): void {
+		for (const watcher of this.watchers) {
+			watcher.dispose();
+		}
+		this.watchers = [];
+	}
+
 	/**
 	 * @brief Disposes all file watchers and cleans up resources.
 	 */
@@ -114,9 +127,6 @@ export class FileWatcher implements vscode.Disposable {
 			this.debounceTimer = undefined;
 		}
 
-		for (const watcher of this.watchers) {
-			watcher.dispose();
-		}
-		this.watchers = [];
+		this.disposeWatchers();
 	}
 }